@@ -0,0 +1,121 @@
+import { parseDatex2 } from "@/api/datex2";
+import { MalformedPayloadError } from "@/api/errors";
+
+// Publicación DATEX II v2 recortada, como la sirve la DGT.
+const V2 = `<?xml version="1.0" encoding="UTF-8"?>
+<d2LogicalModel xmlns="http://datex2.eu/schema/2/2_0" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <payloadPublication xsi:type="SituationPublication" lang="es">
+    <situation id="SIT-1">
+      <overallSeverity>high</overallSeverity>
+      <situationRecord xsi:type="Accident" id="REC-1">
+        <situationRecordCreationTime>2026-05-01T08:00:00+02:00</situationRecordCreationTime>
+        <validity>
+          <validityStatus>active</validityStatus>
+          <validityTimeSpecification>
+            <overallStartTime>2026-05-01T08:05:00+02:00</overallStartTime>
+          </validityTimeSpecification>
+        </validity>
+        <accidentType>vehicleSpunAround</accidentType>
+        <groupOfLocations>
+          <tpegPointLocation>
+            <point>
+              <pointCoordinates>
+                <latitude>40.4168</latitude>
+                <longitude>-3.7038</longitude>
+              </pointCoordinates>
+            </point>
+          </tpegPointLocation>
+          <roadNumber>A-6</roadNumber>
+          <alertCDirectionCoded>positive</alertCDirectionCoded>
+          <tpegDirection>northWestBound</tpegDirection>
+          <kilometerPoint>23.4</kilometerPoint>
+          <province>Madrid</province>
+          <municipality>Las Rozas &amp; Majadahonda</municipality>
+        </groupOfLocations>
+      </situationRecord>
+    </situation>
+    <situation id="SIT-2">
+      <situationRecord xsi:type="MaintenanceWorks" id="REC-2">
+        <validity>
+          <validityStatus>active</validityStatus>
+          <validityTimeSpecification>
+            <overallEndTime>2026-04-01T00:00:00Z</overallEndTime>
+          </validityTimeSpecification>
+        </validity>
+        <roadMaintenanceType>roadworks</roadMaintenanceType>
+        <latitude>41.0</latitude>
+        <longitude>-4.0</longitude>
+      </situationRecord>
+      <situationRecord xsi:type="PoorEnvironmentConditions" id="REC-3">
+        <validity><validityStatus>suspended</validityStatus></validity>
+        <latitude>41.1</latitude>
+        <longitude>-4.1</longitude>
+      </situationRecord>
+      <situationRecord xsi:type="AbnormalTraffic" id="REC-4">
+        <abnormalTrafficType>stationaryTraffic</abnormalTrafficType>
+      </situationRecord>
+    </situation>
+  </payloadPublication>
+</d2LogicalModel>`;
+
+// La misma incidencia en v3, con prefijos de espacio de nombres.
+const V3 = `<d2:payload xmlns:d2="http://datex2.eu/schema/3/d2Payload" xmlns:sit="http://datex2.eu/schema/3/situation" xmlns:loc="http://datex2.eu/schema/3/locationReferencing" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:type="sit:SituationPublication">
+  <sit:situation id="S3">
+    <sit:situationRecord xsi:type="sit:RoadOrCarriagewayOrLaneManagement" id="R3">
+      <sit:roadOrCarriagewayOrLaneManagementType>roadClosed</sit:roadOrCarriagewayOrLaneManagementType>
+      <sit:severity>highest</sit:severity>
+      <loc:latitude>42,5</loc:latitude>
+      <loc:longitude>-2,25</loc:longitude>
+      <loc:roadName><![CDATA[N-I <Burgos>]]></loc:roadName>
+    </sit:situationRecord>
+  </sit:situation>
+</d2:payload>`;
+
+describe("parseDatex2", () => {
+  it("maps a v2 record to an alert event", () => {
+    const [event] = parseDatex2(V2);
+    expect(event).toEqual({
+      id: "REC-1",
+      type: "ACCIDENT",
+      cause: "vehicle spun around",
+      road: "A-6",
+      pkText: "23,4",
+      pkKm: 23.4,
+      direction: "creciente",
+      orientation: "NO",
+      province: "Madrid",
+      municipality: "Las Rozas & Majadahonda",
+      startTime: "2026-05-01T08:05:00+02:00",
+      source: "datex2",
+      lat: 40.4168,
+      lon: -3.7038,
+      severity: 4,
+    });
+  });
+
+  it("skips suspended records and records without coordinates", () => {
+    const ids = parseDatex2(V2).map((e) => e.id);
+    expect(ids).toEqual(["REC-1", "REC-2"]);
+  });
+
+  it("drops records that ended before now, only when now is given", () => {
+    const now = Date.parse("2026-05-01T10:00:00Z");
+    expect(parseDatex2(V2, now).map((e) => e.id)).toEqual(["REC-1"]);
+  });
+
+  it("reads namespaced v3 records, decimal commas and CDATA", () => {
+    const [event] = parseDatex2(V3);
+    expect(event).toMatchObject({
+      id: "R3",
+      type: "CLOSURE",
+      road: "N-I <Burgos>",
+      lat: 42.5,
+      lon: -2.25,
+      severity: 5,
+    });
+  });
+
+  it("rejects anything that isn't a situation publication", () => {
+    expect(() => parseDatex2("<html></html>")).toThrow(MalformedPayloadError);
+  });
+});
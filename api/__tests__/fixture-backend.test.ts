@@ -0,0 +1,42 @@
+import { ServerError } from "@/api/errors";
+import { fixtureAlert, fixtureAlerts, isFixtureBackend } from "@/api/fixture-backend";
+
+describe("isFixtureBackend", () => {
+  it("is selected by the mock: URL only", () => {
+    expect(isFixtureBackend("mock:")).toBe(true);
+    expect(isFixtureBackend("https://api.example.com")).toBe(false);
+  });
+});
+
+describe("fixtureAlerts", () => {
+  it("answers like the backend around the demo incidents", () => {
+    const before = Date.now();
+    // justo encima del accidente de la A-6 en Las Rozas
+    const hits = fixtureAlerts({ lat: 40.4901, lon: -3.8594, radiusMeters: 2000 });
+    expect(hits.map((h) => h.event.id)).toEqual(["demo-1"]);
+    expect(hits[0].distanceMeters).toBeCloseTo(0, 3);
+    // `startTime` relativo a ahora: hace 12 minutos
+    const age = before - Date.parse(hits[0].event.startTime!);
+    expect(age).toBeGreaterThanOrEqual(11 * 60000);
+    expect(age).toBeLessThanOrEqual(13 * 60000);
+  });
+
+  it("returns only incidents within the radius, closest first", () => {
+    const hits = fixtureAlerts({ lat: 40.4168, lon: -3.7038, radiusMeters: 10000 });
+    expect(hits.length).toBeGreaterThan(1);
+    const distances = hits.map((h) => h.distanceMeters);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    expect(Math.max(...distances)).toBeLessThanOrEqual(10000);
+  });
+
+  it("returns nothing far from every demo incident", () => {
+    expect(fixtureAlerts({ lat: 28.1, lon: -15.4, radiusMeters: 50000 })).toEqual([]);
+  });
+});
+
+describe("fixtureAlert", () => {
+  it("finds demo incidents by id and answers 404 otherwise", () => {
+    expect(fixtureAlert("demo-1").road).toBe("A-6");
+    expect(() => fixtureAlert("nope")).toThrow(ServerError);
+  });
+});
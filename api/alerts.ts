@@ -0,0 +1,134 @@
+import { requestJson, type RequestOptions } from "@/api/client";
+import {
+  fixtureAlert,
+  fixtureAlerts,
+  fixtureFeedback,
+  fixtureReport,
+  fixtureRouteAlerts,
+  isFixtureBackend,
+} from "@/api/fixture-backend";
+import { parseAlertEvent, parseAlertEvents, parseAlertHits } from "@/api/validation";
+import type { Coords, RoadSegment } from "@/types/alerts";
+import type { IncidentReport } from "@/utils/reports";
+
+export type AlertsQuery = {
+  lat: number;
+  lon: number;
+  radiusMeters: number;
+};
+
+/**
+ * `GET /alerts`: incidents within `radiusMeters` of a point, validated.
+ * Every call here answers from the bundled demo incidents when the backend
+ * URL is `mock:` (see `@/api/fixture-backend`).
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function getAlerts(query: AlertsQuery, options?: RequestOptions) {
+  if (isFixtureBackend(options?.baseUrl)) return fixtureAlerts(query);
+  const params = new URLSearchParams({
+    lat: String(query.lat),
+    lon: String(query.lon),
+    radiusMeters: String(query.radiusMeters),
+  });
+  const body = await requestJson(`/alerts?${params}`, options);
+  return parseAlertHits(body);
+}
+
+/**
+ * `GET /alerts/{id}`: a single incident, e.g. to open a shared link. An
+ * incident that is no longer active answers 404 (`ServerError`).
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function getAlert(id: string, options?: RequestOptions) {
+  if (isFixtureBackend(options?.baseUrl)) return fixtureAlert(id);
+  const body = await requestJson(`/alerts/${encodeURIComponent(id)}`, options);
+  return parseAlertEvent(body);
+}
+
+/**
+ * `POST /alerts/{id}/feedback`: the driver's answer to "¿Sigue ahí?" when
+ * passing the incident. Resolves to the incident with its updated
+ * `confirmedCount` / `clearedCount`. Never retried: an answer that arrived
+ * but timed out would be counted twice.
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function postFeedback(id: string, stillThere: boolean, options?: RequestOptions) {
+  if (isFixtureBackend(options?.baseUrl)) return fixtureFeedback(id, stillThere);
+  const body = await requestJson(`/alerts/${encodeURIComponent(id)}/feedback`, {
+    ...options,
+    retries: 0,
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ stillThere }),
+    },
+  });
+  return parseAlertEvent(body);
+}
+
+/**
+ * Checks that `baseUrl` answers `/alerts` with a valid payload. Resolves to
+ * the round-trip time in ms; throws the same errors as `getAlerts`.
+ */
+export async function pingBackend(baseUrl: string) {
+  const started = Date.now();
+  // Puerta del Sol, radio mínimo: solo queremos saber si responde bien.
+  await getAlerts(
+    { lat: 40.4168, lon: -3.7038, radiusMeters: 1 },
+    { baseUrl, retries: 0, timeoutMs: 5000 }
+  );
+  return Date.now() - started;
+}
+
+export type RouteAlertsQuery = {
+  polyline?: Coords[];
+  segments?: RoadSegment[];
+  /** how far from the polyline an event still counts as "on the route" */
+  corridorMeters?: number;
+};
+
+/**
+ * `POST /alerts/route`: every incident along a route, given as a polyline,
+ * as road segments, or both.
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function getRouteAlerts(query: RouteAlertsQuery, options?: RequestOptions) {
+  if (isFixtureBackend(options?.baseUrl)) return fixtureRouteAlerts(query);
+  const body = await requestJson("/alerts/route", {
+    ...options,
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        polyline: query.polyline?.map((p) => ({ lat: p.latitude, lon: p.longitude })),
+        segments: query.segments,
+        corridorMeters: query.corridorMeters ?? 200,
+      }),
+    },
+  });
+  return parseAlertEvents(body);
+}
+
+/**
+ * `POST /reports`: an incident reported by the driver. Resolves to the
+ * incident the backend created for it. Sending the same report `id` twice
+ * doesn't create a second incident, so it's safe to retry.
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function postReport(report: IncidentReport, options?: RequestOptions) {
+  if (isFixtureBackend(options?.baseUrl)) return fixtureReport(report);
+  const body = await requestJson("/reports", {
+    ...options,
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(report),
+    },
+  });
+  return parseAlertEvent(body);
+}
@@ -0,0 +1,97 @@
+import {
+  MalformedPayloadError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+} from "@/api/errors";
+import { DEFAULT_BACKEND_URL } from "@/constants/backend";
+
+export type RequestOptions = {
+  /** per attempt, in ms */
+  timeoutMs?: number;
+  /** extra attempts after the first one */
+  retries?: number;
+  /** delay before the first retry; doubles on each attempt */
+  backoffMs?: number;
+  baseUrl?: string;
+  init?: RequestInit;
+};
+
+const DEFAULTS = {
+  timeoutMs: 8000,
+  retries: 2,
+  backoffMs: 500,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Whether a failed request may succeed later: network, timeout, 5xx or 429. */
+export function isRetryable(error: unknown) {
+  if (error instanceof ServerError) return error.status >= 500 || error.status === 429;
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (e) {
+    if (controller.signal.aborted) throw new TimeoutError(timeoutMs);
+    throw new NetworkError("Network request failed", { cause: e });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+type BodyReader<T> = (res: Response) => Promise<T>;
+
+async function readJson(res: Response) {
+  try {
+    return (await res.json()) as unknown;
+  } catch {
+    throw new MalformedPayloadError("$", "body is not JSON");
+  }
+}
+
+async function attempt<T>(
+  url: string,
+  init: RequestInit | undefined,
+  timeoutMs: number,
+  read: BodyReader<T>
+) {
+  const res = await fetchWithTimeout(url, init, timeoutMs);
+  if (!res.ok) throw new ServerError(res.status);
+  return read(res);
+}
+
+async function request<T>(path: string, options: RequestOptions, read: BodyReader<T>) {
+  const { timeoutMs, retries, backoffMs } = { ...DEFAULTS, ...options };
+  const url = `${options.baseUrl ?? DEFAULT_BACKEND_URL}${path}`;
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(url, options.init, timeoutMs, read);
+    } catch (e) {
+      if (i >= retries || !isRetryable(e)) throw e;
+      const delay = backoffMs * 2 ** i;
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+}
+
+/**
+ * GETs (or `init.method`) `path` against the backend and returns the parsed
+ * JSON body, still untyped: validate it before use.
+ *
+ * Network errors, timeouts and 5xx/429 are retried with exponential backoff
+ * and jitter; anything else fails immediately.
+ */
+export function requestJson(path: string, options: RequestOptions = {}) {
+  return request(path, options, readJson);
+}
+
+/** Same as `requestJson`, for non-JSON bodies (e.g. XML): the raw text. */
+export function requestText(path: string, options: RequestOptions = {}) {
+  return request(path, options, (res) => res.text());
+}
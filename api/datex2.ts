@@ -0,0 +1,245 @@
+import type { AlertsQuery } from "@/api/alerts";
+import { requestText, type RequestOptions } from "@/api/client";
+import { MalformedPayloadError } from "@/api/errors";
+import { DATEX2_URL } from "@/constants/backend";
+import type { AlertEvent } from "@/types/alerts";
+import { hitsAround } from "@/utils/hits";
+
+// Prefijo de espacio de nombres opcional: DATEX II v2 no lo usa, v3 sí (sit:, loc:, lse:…).
+const NS = "(?:[\\w-]+:)?";
+
+// El feed nacional pesa varios MB: no lo volvemos a bajar en cada consulta.
+const FEED_MAX_AGE_MS = 5 * 60000;
+const FEED_TIMEOUT_MS = 20000;
+
+type Element = { attrs: string; body: string };
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decode(text: string) {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name) => ENTITIES[name])
+    .trim();
+}
+
+function elements(xml: string, name: string): Element[] {
+  const re = new RegExp(`<${NS}${name}\\b([^>]*)>([\\s\\S]*?)</${NS}${name}>`, "g");
+  return [...xml.matchAll(re)].map(([, attrs, body]) => ({ attrs, body }));
+}
+
+/** Text of the first leaf element called `name` anywhere inside `xml`. */
+function text(xml: string, name: string) {
+  const m = xml.match(new RegExp(`<${NS}${name}\\b[^>]*>([^<]*)</${NS}${name}>`));
+  const value = m && decode(m[1]);
+  return value || undefined;
+}
+
+function attr(attrs: string, name: string) {
+  return attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+/** `xsi:type="sit:Accident"` → "Accident". */
+function xsiType(attrs: string) {
+  return attr(attrs, "xsi:type")?.replace(/^[\w-]+:/, "");
+}
+
+function number(value?: string) {
+  const n = Number(value?.replace(",", "."));
+  return value !== undefined && Number.isFinite(n) ? n : undefined;
+}
+
+// Tipo de registro DATEX II → el `type` que ya entiende `categorize`.
+const RECORD_TYPES: [RegExp, string][] = [
+  [/^Accident$/, "ACCIDENT"],
+  [/Obstruction$/, "OBSTACLE"],
+  [/^(PoorEnvironmentConditions|WeatherRelatedRoadConditions)$/, "WEATHER"],
+  [/^AbnormalTraffic$/, "CONGESTION"],
+  [/^(MaintenanceWorks|ConstructionWorks|Roadworks)$/, "ROADWORKS"],
+];
+
+// Subtipo del registro (o causa en v3), en el orden en que se buscan.
+const CAUSE_TAGS = [
+  "accidentType",
+  "animalPresenceType",
+  "obstructionType",
+  "vehicleObstructionType",
+  "poorEnvironmentType",
+  "weatherRelatedRoadConditionType",
+  "nonWeatherRelatedRoadConditionType",
+  "abnormalTrafficType",
+  "roadMaintenanceType",
+  "constructionWorkType",
+  "roadOrCarriagewayOrLaneManagementType",
+  "causeType",
+];
+
+const SEVERITIES: Record<string, number> = {
+  lowest: 1,
+  low: 2,
+  medium: 3,
+  high: 4,
+  highest: 5,
+};
+
+const ALERTC_DIRECTIONS: Record<string, string> = {
+  positive: "creciente",
+  negative: "decreciente",
+  both: "ambos",
+};
+
+const TPEG_DIRECTIONS: Record<string, string> = {
+  northBound: "N",
+  northEastBound: "NE",
+  eastBound: "E",
+  southEastBound: "SE",
+  southBound: "S",
+  southWestBound: "SO",
+  westBound: "O",
+  northWestBound: "NO",
+};
+
+function recordType(type: string | undefined, body: string) {
+  if (!type) return "UNKNOWN";
+  const known = RECORD_TYPES.find(([re]) => re.test(type))?.[1];
+  if (known) return known;
+  // cortes de carretera o carril vienen como gestión de la vía
+  const management = text(body, "roadOrCarriagewayOrLaneManagementType") ?? "";
+  if (type === "RoadOrCarriagewayOrLaneManagement" && /[Cc]losed|[Cc]losure/.test(management)) {
+    return "CLOSURE";
+  }
+  return type;
+}
+
+/** "heavySnowfall" → "heavy snowfall", which `formatCause` recognizes. */
+function causeText(body: string) {
+  for (const tag of CAUSE_TAGS) {
+    const value = text(body, tag);
+    if (value) return value.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  }
+  return undefined;
+}
+
+function toEvent(
+  record: Element,
+  situation: Element,
+  index: number,
+  now?: number
+): AlertEvent | null {
+  const { body } = record;
+  if (text(body, "validityStatus") === "suspended") return null;
+  const end = text(body, "overallEndTime");
+  if (now !== undefined && end && Date.parse(end) < now) return null;
+
+  // la primera posición del registro (locationForDisplay o el punto inicial del tramo)
+  const lat = number(text(body, "latitude"));
+  const lon = number(text(body, "longitude"));
+  if (lat === undefined || lon === undefined || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return null;
+  }
+
+  const pk = text(body, "kilometerPoint");
+  const severity = text(body, "severity") ?? text(situation.body, "overallSeverity");
+  return {
+    id: attr(record.attrs, "id") ?? attr(situation.attrs, "id") ?? `datex2-${index}`,
+    type: recordType(xsiType(record.attrs), body),
+    cause: causeText(body),
+    road: text(body, "roadNumber") ?? text(body, "roadName"),
+    pkText: pk?.replace(".", ","),
+    pkKm: number(pk),
+    direction: ALERTC_DIRECTIONS[text(body, "alertCDirectionCoded") ?? ""],
+    orientation: TPEG_DIRECTIONS[text(body, "tpegDirection") ?? ""],
+    province: text(body, "province"),
+    municipality: text(body, "municipality"),
+    startTime: text(body, "overallStartTime") ?? text(body, "situationRecordCreationTime"),
+    source: "datex2",
+    lat,
+    lon,
+    severity: severity ? SEVERITIES[severity] : undefined,
+  };
+}
+
+/**
+ * Incidents in a DATEX II situation publication (v2 or v3, as the DGT
+ * publishes it), one per situation record with coordinates. Records that
+ * ended before `now` are dropped; leave it out to keep them all, e.g. for
+ * an old test file. Pure.
+ *
+ * @throws {MalformedPayloadError} if it isn't a situation publication
+ */
+export function parseDatex2(xml: string, now?: number): AlertEvent[] {
+  if (!/SituationPublication/.test(xml)) {
+    throw new MalformedPayloadError("$", "not a DATEX II situation publication");
+  }
+  const plain = xml.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) =>
+    data.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+  );
+  const events: AlertEvent[] = [];
+  for (const situation of elements(plain, "situation")) {
+    for (const record of elements(situation.body, "situationRecord")) {
+      const event = toEvent(record, situation, events.length, now);
+      if (event) events.push(event);
+    }
+  }
+  return events;
+}
+
+let feed: { events: AlertEvent[]; fetchedAt: number } | null = null;
+let localFile: { name: string; events: AlertEvent[] } | null = null;
+
+/**
+ * Every active incident in the DGT DATEX II feed, fetched directly (no
+ * backend) and kept for a few minutes. A file loaded with `loadDatex2File`
+ * replaces the feed while it's set.
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function getDatex2Events(options?: RequestOptions) {
+  if (localFile) return localFile.events;
+  if (feed && Date.now() - feed.fetchedAt < FEED_MAX_AGE_MS) return feed.events;
+  const xml = await requestText("", {
+    baseUrl: DATEX2_URL,
+    timeoutMs: FEED_TIMEOUT_MS,
+    retries: 0,
+    ...options,
+  });
+  feed = { events: parseDatex2(xml, Date.now()), fetchedAt: Date.now() };
+  return feed.events;
+}
+
+/**
+ * Same answer as `GET /alerts`, computed locally from the DATEX II feed:
+ * the fallback when the backend is down.
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function getDatex2Alerts(query: AlertsQuery, options?: RequestOptions) {
+  const events = await getDatex2Events(options);
+  const coords = { latitude: query.lat, longitude: query.lon };
+  return hitsAround(events, coords, query.radiusMeters);
+}
+
+/**
+ * Uses a local DATEX II file instead of the live feed, for testing.
+ *
+ * @throws {MalformedPayloadError} if it isn't a situation publication
+ */
+export function loadDatex2File(name: string, xml: string) {
+  localFile = { name, events: parseDatex2(xml) };
+  return localFile;
+}
+
+export function clearDatex2File() {
+  localFile = null;
+}
+
+/** The file loaded with `loadDatex2File`, if any. */
+export function datex2File() {
+  return localFile;
+}
@@ -0,0 +1,47 @@
+import { tr } from "@/i18n";
+
+/**
+ * Base class for every failure of the backend client, so callers can tell
+ * "backend problem" apart from bugs with a single `instanceof`.
+ */
+export class ApiError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The request never got an HTTP response (no coverage, DNS, refused…). */
+export class NetworkError extends ApiError {}
+
+/** No response within the client timeout. */
+export class TimeoutError extends ApiError {
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`);
+  }
+}
+
+/** The backend answered with a non-2xx status. */
+export class ServerError extends ApiError {
+  constructor(readonly status: number) {
+    super(`Backend responded ${status}`);
+  }
+}
+
+/** The backend answered 2xx but the body isn't what we expect. */
+export class MalformedPayloadError extends ApiError {
+  constructor(readonly path: string, detail: string) {
+    super(`Malformed payload at ${path}: ${detail}`);
+  }
+}
+
+/**
+ * Short status line for the UI, in the active language.
+ */
+export function describeApiError(error: unknown) {
+  if (error instanceof TimeoutError) return tr("error.timeout");
+  if (error instanceof ServerError) return tr("error.server", { status: error.status });
+  if (error instanceof MalformedPayloadError) return tr("error.malformed");
+  if (error instanceof NetworkError) return tr("error.network");
+  return tr("error.generic");
+}
@@ -0,0 +1,92 @@
+import type { AlertsQuery, RouteAlertsQuery } from "@/api/alerts";
+import { ServerError } from "@/api/errors";
+import { parseAlertEvent } from "@/api/validation";
+import { DEFAULT_BACKEND_URL } from "@/constants/backend";
+import type { AlertEvent } from "@/types/alerts";
+import { pkKilometres } from "@/utils/format";
+import { hitsAround } from "@/utils/hits";
+import { reportToEvent, type IncidentReport } from "@/utils/reports";
+import { normalizeRoad } from "@/utils/route-filter";
+import { projectOnPolyline } from "@/utils/route-plan";
+
+import fixtures from "./fixtures/incidents.json";
+
+/** Backend URL that selects the bundled demo incidents instead of HTTP. */
+export const FIXTURE_BACKEND_URL = "mock:";
+
+export function isFixtureBackend(baseUrl = DEFAULT_BACKEND_URL) {
+  return baseUrl.startsWith(FIXTURE_BACKEND_URL);
+}
+
+let events: AlertEvent[] | null = null;
+
+// Validadas como una respuesta real; `startTime` relativo a la primera consulta.
+function fixtureEvents() {
+  if (!events) {
+    const now = Date.now();
+    events = fixtures.map(({ ageMinutes, event }, i) =>
+      parseAlertEvent(
+        { ...event, startTime: new Date(now - ageMinutes * 60000).toISOString() },
+        `fixtures[${i}]`
+      )
+    );
+  }
+  return events;
+}
+
+/** Demo stand-in for `GET /alerts`, with the backend's haversine distances. */
+export function fixtureAlerts(query: AlertsQuery) {
+  const coords = { latitude: query.lat, longitude: query.lon };
+  return hitsAround(fixtureEvents(), coords, query.radiusMeters);
+}
+
+/** Demo stand-in for `GET /alerts/{id}`. */
+export function fixtureAlert(id: string) {
+  const event = fixtureEvents().find((e) => e.id === id);
+  if (!event) throw new ServerError(404);
+  return event;
+}
+
+/** Demo stand-in for `POST /alerts/{id}/feedback`: counts the answer. */
+export function fixtureFeedback(id: string, stillThere: boolean) {
+  const events = fixtureEvents();
+  const i = events.findIndex((e) => e.id === id);
+  if (i < 0) throw new ServerError(404);
+  const event = events[i];
+  events[i] = stillThere
+    ? { ...event, confirmedCount: (event.confirmedCount ?? 0) + 1 }
+    : { ...event, clearedCount: (event.clearedCount ?? 0) + 1 };
+  return events[i];
+}
+
+/** Demo stand-in for `POST /reports`: the report joins the demo incidents. */
+export function fixtureReport(report: IncidentReport) {
+  const id = `demo-${report.id}`;
+  const events = fixtureEvents();
+  let event = events.find((e) => e.id === id);
+  if (!event) {
+    event = { ...reportToEvent(report), id };
+    events.push(event);
+  }
+  return event;
+}
+
+/** Demo stand-in for `POST /alerts/route`: inside the corridor or a segment. */
+export function fixtureRouteAlerts(query: RouteAlertsQuery) {
+  const { polyline = [], segments = [], corridorMeters = 200 } = query;
+  return fixtureEvents().filter((event) => {
+    const point = { latitude: event.lat, longitude: event.lon };
+    if (polyline.length && projectOnPolyline(polyline, point).offMeters <= corridorMeters) {
+      return true;
+    }
+    const road = normalizeRoad(event.road);
+    const pk = pkKilometres(event);
+    return segments.some(
+      (s) =>
+        normalizeRoad(s.road) === road &&
+        pk !== null &&
+        pk >= Math.min(s.fromPk, s.toPk) &&
+        pk <= Math.max(s.fromPk, s.toPk)
+    );
+  });
+}
@@ -0,0 +1,30 @@
+import { requestJson } from "@/api/client";
+import { MalformedPayloadError } from "@/api/errors";
+import { ROUTING_URL } from "@/constants/backend";
+import type { Coords } from "@/types/alerts";
+
+/**
+ * Driving route between two points from an OSRM-compatible server, as a
+ * polyline.
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function getDrivingRoute(origin: Coords, destination: Coords): Promise<Coords[]> {
+  const points = `${origin.longitude},${origin.latitude};${destination.longitude},${destination.latitude}`;
+  const body = (await requestJson(
+    `/route/v1/driving/${points}?overview=full&geometries=geojson`,
+    { baseUrl: ROUTING_URL }
+  )) as { routes?: { geometry?: { coordinates?: unknown } }[] };
+
+  const coordinates = body?.routes?.[0]?.geometry?.coordinates;
+  if (!Array.isArray(coordinates) || coordinates.length < 2) {
+    throw new MalformedPayloadError("$.routes[0].geometry", "no route");
+  }
+  return coordinates.map((c, i) => {
+    if (!Array.isArray(c) || typeof c[0] !== "number" || typeof c[1] !== "number") {
+      const path = `$.routes[0].geometry.coordinates[${i}]`;
+      throw new MalformedPayloadError(path, "expected [lon, lat]");
+    }
+    return { latitude: c[1], longitude: c[0] };
+  });
+}
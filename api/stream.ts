@@ -0,0 +1,89 @@
+import type { AlertsQuery } from "@/api/alerts";
+import { parseAlertEvent, parseAlertEvents } from "@/api/validation";
+import type { AlertEvent } from "@/types/alerts";
+
+/** Server → client messages of the `/alerts/stream` WebSocket. */
+export type StreamMessage =
+  | { type: "snapshot"; events: AlertEvent[] }
+  | { type: "incident.created" | "incident.updated"; event: AlertEvent }
+  | { type: "incident.cleared"; id: string };
+
+export type AlertStream = {
+  /** (re)subscribes to incidents around a point; safe to call often */
+  subscribe: (query: AlertsQuery) => void;
+  isOpen: () => boolean;
+  close: () => void;
+};
+
+/**
+ * ws(s):// URL of the stream for an http(s) backend base URL.
+ */
+export function streamUrl(backendUrl: string) {
+  return `${backendUrl.replace(/^http/, "ws")}/alerts/stream`;
+}
+
+function parseMessage(raw: unknown): StreamMessage | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const msg = JSON.parse(raw);
+    switch (msg?.type) {
+      case "snapshot":
+        return { type: "snapshot", events: parseAlertEvents(msg.events, "events") };
+      case "incident.created":
+      case "incident.updated":
+        return { type: msg.type, event: parseAlertEvent(msg.event) };
+      case "incident.cleared":
+        return typeof msg.id === "string" ? { type: msg.type, id: msg.id } : null;
+      default:
+        return null;
+    }
+  } catch {
+    // mensaje mal formado: lo ignoramos, no tiramos la conexión
+    return null;
+  }
+}
+
+/**
+ * Opens the incident stream. `onClose` fires once, whether the server closed
+ * it, the network dropped or `close()` was called; reconnecting is up to the
+ * caller.
+ */
+export function connectAlertStream(
+  backendUrl: string,
+  handlers: {
+    onOpen?: () => void;
+    onMessage: (msg: StreamMessage) => void;
+    onClose?: () => void;
+  }
+): AlertStream {
+  const ws = new WebSocket(streamUrl(backendUrl));
+  let lastQuery: AlertsQuery | null = null;
+  let closed = false;
+
+  const send = (query: AlertsQuery) =>
+    ws.send(JSON.stringify({ type: "subscribe", ...query }));
+
+  ws.onopen = () => {
+    if (lastQuery) send(lastQuery);
+    handlers.onOpen?.();
+  };
+  ws.onmessage = (ev) => {
+    const msg = parseMessage(ev.data);
+    if (msg) handlers.onMessage(msg);
+  };
+  ws.onerror = () => ws.close();
+  ws.onclose = () => {
+    if (closed) return;
+    closed = true;
+    handlers.onClose?.();
+  };
+
+  return {
+    subscribe(query) {
+      lastQuery = query;
+      if (ws.readyState === WebSocket.OPEN) send(query);
+    },
+    isOpen: () => ws.readyState === WebSocket.OPEN,
+    close: () => ws.close(),
+  };
+}
@@ -0,0 +1,90 @@
+import { MalformedPayloadError } from "@/api/errors";
+import type { AlertEvent, AlertHit } from "@/types/alerts";
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fail(path: string, detail: string): never {
+  throw new MalformedPayloadError(path, detail);
+}
+
+function requiredString(obj: Json, key: string, path: string) {
+  const value = obj[key];
+  if (typeof value === "string") return value;
+  // algunos feeds mandan ids numéricos
+  if (key === "id" && typeof value === "number") return String(value);
+  return fail(`${path}.${key}`, "expected string");
+}
+
+function requiredNumber(obj: Json, key: string, path: string) {
+  const value = obj[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return fail(`${path}.${key}`, "expected number");
+  }
+  return value;
+}
+
+function optionalString(obj: Json, key: string, path: string) {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") return fail(`${path}.${key}`, "expected string");
+  return value;
+}
+
+function optionalNumber(obj: Json, key: string, path: string) {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return fail(`${path}.${key}`, "expected number");
+  }
+  return value;
+}
+
+/**
+ * Validates one `AlertEvent` and drops unknown keys. `null` optional fields
+ * (as Jackson serialises them) become `undefined`.
+ */
+export function parseAlertEvent(value: unknown, path = "event"): AlertEvent {
+  if (!isObject(value)) return fail(path, "expected object");
+  return {
+    id: requiredString(value, "id", path),
+    type: requiredString(value, "type", path),
+    title: optionalString(value, "title", path),
+    cause: optionalString(value, "cause", path),
+    note: optionalString(value, "note", path),
+    road: optionalString(value, "road", path),
+    pkText: optionalString(value, "pkText", path),
+    pkKm: optionalNumber(value, "pkKm", path),
+    direction: optionalString(value, "direction", path),
+    orientation: optionalString(value, "orientation", path),
+    province: optionalString(value, "province", path),
+    municipality: optionalString(value, "municipality", path),
+    startTime: optionalString(value, "startTime", path),
+    source: optionalString(value, "source", path),
+    lat: requiredNumber(value, "lat", path),
+    lon: requiredNumber(value, "lon", path),
+    severity: optionalNumber(value, "severity", path),
+    confirmedCount: optionalNumber(value, "confirmedCount", path),
+    clearedCount: optionalNumber(value, "clearedCount", path),
+  };
+}
+
+export function parseAlertEvents(value: unknown, path = "$"): AlertEvent[] {
+  if (!Array.isArray(value)) return fail(path, "expected array");
+  return value.map((item, i) => parseAlertEvent(item, `${path}[${i}]`));
+}
+
+export function parseAlertHits(value: unknown): AlertHit[] {
+  if (!Array.isArray(value)) return fail("$", "expected array");
+  return value.map((item, i) => {
+    const path = `$[${i}]`;
+    if (!isObject(item)) return fail(path, "expected object");
+    return {
+      event: parseAlertEvent(item.event, `${path}.event`),
+      distanceMeters: requiredNumber(item, "distanceMeters", path),
+    };
+  });
+}
@@ -5,9 +5,11 @@ import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useI18n } from '@/hooks/use-i18n';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const { tr } = useI18n();
 
   return (
     <Tabs
@@ -19,15 +21,45 @@ export default function TabLayout() {
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Home',
+          title: tr('tabs.home'),
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="house.fill" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="map"
+        options={{
+          title: tr('tabs.map'),
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="map.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="trip"
+        options={{
+          title: tr('tabs.trip'),
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="arrow.triangle.turn.up.right.diamond.fill" color={color} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="roads"
+        options={{
+          title: tr('tabs.roads'),
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="road.lanes" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="history"
+        options={{
+          title: tr('tabs.history'),
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="clock.fill" color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="explore"
         options={{
-          title: 'Explore',
-          tabBarIcon: ({ color }) => <IconSymbol size={28} name="paperplane.fill" color={color} />,
+          title: tr('tabs.about'),
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="info.circle.fill" color={color} />,
         }}
       />
     </Tabs>
@@ -0,0 +1,268 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  View,
+  useColorScheme,
+} from "react-native";
+import { File, Paths } from "expo-file-system";
+import { useFocusEffect } from "expo-router";
+import * as Sharing from "expo-sharing";
+
+import { SeverityBadge } from "@/components/hit-list";
+import { IncidentIcon } from "@/components/incident-icon";
+import { getAppTheme, type AppTheme } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatDateTime } from "@/i18n";
+import { formatLocation, incidentLabel } from "@/utils/format";
+import { formatDistance } from "@/utils/hits";
+import {
+  deleteTrip,
+  loadTripHistory,
+  tripToGpx,
+  tripToJson,
+  type TripLog,
+} from "@/utils/trip-history";
+
+const formatTime = (ms: number) => formatDateTime(ms, { hour: "2-digit", minute: "2-digit" });
+
+function tripTitle(trip: TripLog) {
+  const date = formatDateTime(trip.startedAt, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+  const end = trip.endedAt ? ` – ${formatTime(trip.endedAt)}` : "";
+  return `${date}, ${formatTime(trip.startedAt)}${end}`;
+}
+
+const EXPORT_TYPES = {
+  json: { mimeType: "application/json", UTI: "public.json" },
+  gpx: { mimeType: "application/gpx+xml", UTI: "com.topografix.gpx" },
+};
+
+/**
+ * Writes the trip to a file in the cache and opens the share sheet with it,
+ * so it can be saved or opened in another app. Where files can't be shared
+ * (web) the contents go as text instead.
+ */
+async function exportTrip(trip: TripLog, format: "json" | "gpx") {
+  const name = `viaje-${trip.id}.${format}`;
+  const content = format === "json" ? tripToJson(trip) : tripToGpx(trip);
+  if (!(await Sharing.isAvailableAsync())) {
+    await Share.share({ title: name, message: content });
+    return;
+  }
+  const file = new File(Paths.cache, name);
+  file.create({ overwrite: true });
+  file.write(content);
+  await Sharing.shareAsync(file.uri, { ...EXPORT_TYPES[format], dialogTitle: name });
+}
+
+function TripCard({
+  trip,
+  expanded,
+  onToggle,
+  onDelete,
+  t,
+}: {
+  trip: TripLog;
+  expanded: boolean;
+  onToggle: () => void;
+  onDelete: () => void;
+  t: AppTheme;
+}) {
+  const { tr } = useI18n();
+  const count = trip.entries.length;
+
+  function share(format: "json" | "gpx") {
+    exportTrip(trip, format).catch(() =>
+      Alert.alert(tr("history.exportFailed"), tr("history.tryAgain"))
+    );
+  }
+
+  return (
+    <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+      <Pressable onPress={onToggle} style={styles.row}>
+        <Text style={[styles.cardTitle, { color: t.text }]}>{tripTitle(trip)}</Text>
+        <Text style={[styles.label, { color: t.muted }]}>
+          {count === 1 ? tr("history.countOne") : tr("history.count", { count })}
+        </Text>
+      </Pressable>
+
+      {expanded && (
+        <>
+          {!count && (
+            <Text style={[styles.hint, { color: t.muted }]}>{tr("history.noIncidents")}</Text>
+          )}
+          {trip.entries.map(({ event, seenAt, minDistanceMeters }) => (
+            <View key={event.id} style={[styles.entry, { borderColor: t.border }]}>
+              <SeverityBadge severity={event.severity} />
+              <IncidentIcon event={event} size={20} color={t.muted} />
+              <View style={styles.grow}>
+                <Text style={[styles.entryTitle, { color: t.text }]} numberOfLines={1}>
+                  {formatLocation(event) || incidentLabel(event)}
+                </Text>
+                <Text style={[styles.hint, { color: t.muted }]} numberOfLines={1}>
+                  {[formatTime(seenAt), incidentLabel(event)].join(" • ")}
+                </Text>
+              </View>
+              <Text style={[styles.entryDistance, { color: t.text }]}>
+                {formatDistance(minDistanceMeters)}
+              </Text>
+            </View>
+          ))}
+
+          <View style={styles.actions}>
+            <Pressable
+              onPress={() => share("json")}
+              style={[styles.ghostBtn, { borderColor: t.border }]}
+            >
+              <Text style={[styles.ghostBtnText, { color: t.text }]}>JSON</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => share("gpx")}
+              style={[styles.ghostBtn, { borderColor: t.border }]}
+            >
+              <Text style={[styles.ghostBtnText, { color: t.text }]}>GPX</Text>
+            </Pressable>
+            <Pressable
+              onPress={onDelete}
+              style={[styles.ghostBtn, { borderColor: t.dangerBorder }]}
+            >
+              <Text style={[styles.ghostBtnText, { color: t.dangerText }]}>
+                {tr("common.delete")}
+              </Text>
+            </Pressable>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Past driving sessions with the incidents alerted in each one.
+ */
+export default function HistoryScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+  const { tr } = useI18n();
+
+  const [trips, setTrips] = useState<TripLog[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // los viajes se guardan al detener la conducción, desde otra pestaña
+  useFocusEffect(
+    useCallback(() => {
+      loadTripHistory().then(setTrips);
+    }, [])
+  );
+
+  async function remove(id: string) {
+    await deleteTrip(id);
+    setTrips((prev) => prev.filter((trip) => trip.id !== id));
+  }
+
+  return (
+    <ScrollView style={{ backgroundColor: t.bg }} contentContainerStyle={styles.container}>
+      <Text style={[styles.title, { color: t.text }]}>{tr("history.title")}</Text>
+      <Text style={[styles.subtitle, { color: t.muted }]}>{tr("history.subtitle")}</Text>
+
+      {!trips.length && (
+        <Text style={[styles.hint, { color: t.muted }]}>{tr("history.empty")}</Text>
+      )}
+
+      {trips.map((trip) => (
+        <TripCard
+          key={trip.id}
+          trip={trip}
+          t={t}
+          expanded={expandedId === trip.id}
+          onToggle={() => setExpandedId((id) => (id === trip.id ? null : trip.id))}
+          onDelete={() => remove(trip.id)}
+        />
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 18,
+    paddingTop: 36,
+    gap: 12,
+  },
+  title: {
+    fontSize: 30,
+    fontWeight: "800",
+    letterSpacing: 0.2,
+  },
+  subtitle: {
+    fontSize: 14,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "800",
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+  },
+  grow: {
+    flex: 1,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderTopWidth: 1,
+    paddingTop: 10,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  entryDistance: {
+    fontSize: 14,
+    fontWeight: "800",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 4,
+  },
+  ghostBtn: {
+    flex: 1,
+    height: 40,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  ghostBtnText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+});
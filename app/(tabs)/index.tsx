@@ -1,291 +1,152 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useMemo, useState } from "react";
 import {
   View,
   Text,
   StyleSheet,
-  Alert,
   Pressable,
   ActivityIndicator,
   useColorScheme,
-  Platform,
 } from "react-native";
-import * as Location from "expo-location";
-import { Audio } from "expo-av";
-import * as Device from "expo-device";
-
-type AlertEvent = {
-  id: string;
-  type: string;
-
-  title?: string;
-  cause?: string;
-
-  road?: string;
-  pkText?: string;
-  pkKm?: number;
-
-  direction?: string;
-  orientation?: string;
-
-  province?: string;
-  municipality?: string;
-
-  startTime?: string;
-  source?: string;
-
-  lat: number;
-  lon: number;
-  severity?: number;
-};
-
-type AlertHit = {
-  event: AlertEvent;
-  distanceMeters: number;
-};
-
-function getBackendBaseUrl() {
-  const envUrl = process.env.EXPO_PUBLIC_API_URL;
-  if (envUrl) return envUrl;
-
-  if (Platform.OS === "web") {
-    return "http://localhost:8080/api";
-  }
-
-  if (Platform.OS === "android" && !Device.isDevice) {
-    return "http://10.0.2.2:8080/api";
-  }
-
-  if (Platform.OS === "ios" && !Device.isDevice) {
-    return "http://localhost:8080/api";
-  }
-
-  // móvil físico: IP de tu PC en la misma WiFi
-  return "http://192.168.1.40:8080/api";
-}
-
-const BACKEND_BASE_URL = getBackendBaseUrl();
-
-function Field({
-  label,
-  value,
-  textColor,
-  mutedColor,
-}: {
-  label: string;
-  value?: string | number | null;
-  textColor: string;
-  mutedColor: string;
-}) {
-  if (value === undefined || value === null || value === "") return null;
-  return (
-    <Text style={{ color: textColor, lineHeight: 20 }}>
-      <Text style={{ color: mutedColor, fontWeight: "800" }}>{label}: </Text>
-      {String(value)}
-    </Text>
-  );
-}
+import { Link } from "expo-router";
+
+import { isFixtureBackend } from "@/api/fixture-backend";
+import { FeedbackPrompt } from "@/components/feedback-prompt";
+import { HitList, HitSortToggle } from "@/components/hit-list";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { getAppTheme } from "@/constants/theme";
+import { describeStatus, useDriving } from "@/hooks/use-driving";
+import { useI18n } from "@/hooks/use-i18n";
+import { useReports } from "@/hooks/use-reports";
+import { useSettings } from "@/hooks/use-settings";
+import { formatDistance, rankHits, type HitSort } from "@/utils/hits";
+import { clearedLast } from "@/utils/incident-feedback";
 
 export default function HomeScreen() {
   const scheme = useColorScheme();
   const isDark = scheme === "dark";
-  const t = useMemo(() => getTheme(isDark), [isDark]);
-
-  const [driving, setDriving] = useState(false);
-  const [status, setStatus] = useState("Listo");
-  const [busy, setBusy] = useState(false);
-
-  const [lastHit, setLastHit] = useState<AlertHit | null>(null);
-
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const soundRef = useRef<Audio.Sound | null>(null);
-
-  useEffect(() => {
-    (async () => {
-      const perm = await Location.requestForegroundPermissionsAsync();
-      if (perm.status !== "granted") {
-        Alert.alert("Permiso requerido", "Sin ubicación no hay alertas.");
-      }
-      await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
-    })();
-
-    return stopDriving;
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  async function beep() {
-    try {
-      if (!soundRef.current) {
-        const { sound } = await Audio.Sound.createAsync(
-          require("../../assets/beep.mp3")
-        );
-        soundRef.current = sound;
-      }
-      await soundRef.current.replayAsync();
-    } catch {
-      // MVP: si falla el sonido, seguimos
-    }
-  }
-
-  async function tick() {
-    setBusy(true);
-    try {
-      setStatus("Obteniendo ubicación…");
-      const pos = await Location.getCurrentPositionAsync({
-        accuracy: Location.Accuracy.High,
-      });
-
-      const { latitude, longitude } = pos.coords;
-
-      setStatus("Consultando incidencias…");
-      const url = `${BACKEND_BASE_URL}/alerts?lat=${latitude}&lon=${longitude}&radiusMeters=2000`;
-      const res = await fetch(url);
-
-      if (!res.ok) {
-        setStatus(`Backend ${res.status}`);
-        return;
-      }
-
-      const hits = (await res.json()) as AlertHit[];
-      if (!hits.length) {
-        setStatus("Sin incidencias cercanas");
-        setLastHit(null);
-        return;
-      }
-
-      const hit = hits[0];
-      setLastHit(hit);
-      setStatus("ALERTA");
-      await beep();
-    } catch (e) {
-      setStatus("Error consultando backend");
-    } finally {
-      setBusy(false);
-    }
-  }
-
-  function startDriving() {
-    setDriving(true);
-    setStatus("Conducción activa");
-    tick();
-    timerRef.current = setInterval(tick, 30000);
-  }
-
-  function stopDriving() {
-    setDriving(false);
-    if (timerRef.current) clearInterval(timerRef.current);
-    timerRef.current = null;
-    setBusy(false);
-    setStatus("Parado");
-  }
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+
+  const {
+    driving,
+    background,
+    status,
+    busy,
+    offline,
+    fallback,
+    live,
+    hits,
+    nearbyHits,
+    pollIntervalMs,
+    radiusMeters,
+    simulation,
+    tick,
+    startDriving,
+    stopDriving,
+  } = useDriving();
+  const { backendUrl } = useSettings();
+  // una posición simulada no puede llegar al backend real como aviso
+  const canReport = !simulation || isFixtureBackend(backendUrl);
+  const { pending } = useReports();
+  const { tr } = useI18n();
+  const radius = tr("home.radius", { distance: formatDistance(radiusMeters) });
+  const cadence = live
+    ? tr("home.live", { radius })
+    : tr("home.every", { seconds: Math.round(pollIntervalMs / 1000), radius });
+  const alerting = status === "alert";
+
+  const [sort, setSort] = useState<HitSort>("distance");
+  // se recalcula en cada consulta porque `hits` cambia de referencia; las que
+  // otros conductores dan por despejadas, al final
+  const ranked = useMemo(() => clearedLast(rankHits(hits, sort)), [hits, sort]);
+  const rankedNearby = useMemo(
+    () => clearedLast(rankHits(nearbyHits, sort)),
+    [nearbyHits, sort]
+  );
 
   const pillStyle =
-    status === "ALERTA"
+    alerting
       ? { backgroundColor: t.dangerBg, borderColor: t.dangerBorder }
       : { backgroundColor: t.pillBg, borderColor: t.border };
 
   const pillTextStyle =
-    status === "ALERTA" ? { color: t.dangerText } : { color: t.text };
-
-  const headline =
-    lastHit?.event?.title ??
-    (lastHit ? "Incidencia" : "—");
-
-  const subline =
-    lastHit
-      ? `${headline} (${lastHit.event.id}) a ${(lastHit.distanceMeters / 1000).toFixed(
-          1
-        )} km`
-      : "—";
-
-  const e = lastHit?.event;
+    alerting ? { color: t.dangerText } : { color: t.text };
 
   return (
     <View style={[styles.container, { backgroundColor: t.bg }]}>
       <View style={styles.header}>
-        <Text style={[styles.title, { color: t.text }]}>TrafficAlert</Text>
+        <View style={styles.row}>
+          <Text style={[styles.title, { color: t.text }]}>TrafficAlert</Text>
+          <Link href="/settings" asChild>
+            <Pressable hitSlop={12} accessibilityLabel={tr("settings.title")}>
+              <IconSymbol name="gearshape.fill" size={26} color={t.muted} />
+            </Pressable>
+          </Link>
+        </View>
         <Text style={[styles.subtitle, { color: t.muted }]}>
-          MVP • alertas simples cerca de ti
+          {tr("home.subtitle")}
         </Text>
       </View>
 
       <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
         <View style={styles.row}>
-          <Text style={[styles.label, { color: t.muted }]}>Estado</Text>
+          <Text style={[styles.label, { color: t.muted }]}>{tr("home.status")}</Text>
           <View style={[styles.pill, pillStyle]}>
-            <Text style={[styles.pillText, pillTextStyle]}>{status}</Text>
+            <Text style={[styles.pillText, pillTextStyle]}>{describeStatus(status)}</Text>
           </View>
         </View>
 
+        {simulation && (
+          <View style={[styles.banner, { backgroundColor: t.simBg, borderColor: t.simBorder }]}>
+            <Text style={[styles.bannerText, { color: t.simText }]} numberOfLines={1}>
+              {tr("simulate.banner", {
+                name: simulation.name,
+                speed: simulation.speedFactor,
+                progress: Math.round(simulation.progress * 100),
+              })}
+            </Text>
+          </View>
+        )}
+
+        {fallback && (
+          <View style={[styles.banner, { backgroundColor: t.pillBg, borderColor: t.border }]}>
+            <Text style={[styles.bannerText, { color: t.text }]}>{tr("home.fallback")}</Text>
+          </View>
+        )}
+
+        {offline && (
+          <View
+            style={[styles.banner, { backgroundColor: t.dangerBg, borderColor: t.dangerBorder }]}
+          >
+            <Text style={[styles.bannerText, { color: t.dangerText }]}>
+              {tr("home.offline")}
+            </Text>
+          </View>
+        )}
+
         <View style={styles.dividerWrap}>
           <View style={[styles.divider, { backgroundColor: t.border }]} />
         </View>
 
-        <Text style={[styles.label, { color: t.muted }]}>Última alerta</Text>
-
-        <Text
-          style={[
-            styles.alertText,
-            { color: status === "ALERTA" ? t.dangerText : t.text },
-          ]}
-          numberOfLines={2}
-        >
-          {subline}
-        </Text>
-
-        {e && (
-          <View style={{ gap: 6, marginTop: 10 }}>
-            <Field label="Tipo" value={e.type} textColor={t.text} mutedColor={t.muted} />
-            <Field label="Causa" value={e.cause} textColor={t.text} mutedColor={t.muted} />
-            <Field label="Carretera" value={e.road} textColor={t.text} mutedColor={t.muted} />
-            <Field
-              label="PK"
-              value={e.pkText ?? (e.pkKm !== undefined ? e.pkKm : null)}
-              textColor={t.text}
-              mutedColor={t.muted}
-            />
-            <Field label="Sentido" value={e.direction} textColor={t.text} mutedColor={t.muted} />
-            <Field
-              label="Orientación"
-              value={e.orientation}
-              textColor={t.text}
-              mutedColor={t.muted}
-            />
-            <Field label="Desde" value={e.startTime} textColor={t.text} mutedColor={t.muted} />
-            <Field label="Provincia" value={e.province} textColor={t.text} mutedColor={t.muted} />
-            <Field
-              label="Municipio"
-              value={e.municipality}
-              textColor={t.text}
-              mutedColor={t.muted}
-            />
-            <Field label="Fuente" value={e.source} textColor={t.text} mutedColor={t.muted} />
+        <View style={styles.row}>
+          <Text style={[styles.label, { color: t.muted }]}>
+            {tr("home.onRoute", { count: ranked.length })}
+          </Text>
+          <HitSortToggle value={sort} onChange={setSort} t={t} />
+        </View>
 
-            <Field
-              label="Coords"
-              value={`${e.lat.toFixed(5)}, ${e.lon.toFixed(5)}`}
-              textColor={t.text}
-              mutedColor={t.muted}
-            />
-            <Field
-              label="Severidad"
-              value={e.severity ?? null}
-              textColor={t.text}
-              mutedColor={t.muted}
-            />
-          </View>
-        )}
+        <HitList hits={ranked} mutedHits={rankedNearby} t={t} />
 
         <View style={styles.cardFooter}>
           {busy ? (
             <View style={styles.loadingRow}>
               <ActivityIndicator />
               <Text style={[styles.loadingText, { color: t.muted }]}>
-                Actualizando…
+                {tr("home.updating")}
               </Text>
             </View>
           ) : (
             <Text style={[styles.hint, { color: t.muted }]}>
-              Actualiza cada 30s mientras conduces
+              {tr(background ? "home.background" : "home.foreground", { cadence })}
             </Text>
           )}
         </View>
@@ -302,7 +163,7 @@ export default function HomeScreen() {
             ]}
           >
             <Text style={[styles.primaryBtnText, { color: t.primaryText }]}>
-              Iniciar conducción
+              {tr("home.start")}
             </Text>
           </Pressable>
         ) : (
@@ -315,11 +176,46 @@ export default function HomeScreen() {
             ]}
           >
             <Text style={[styles.secondaryBtnText, { color: t.text }]}>
-              Detener
+              {tr("home.stop")}
             </Text>
           </Pressable>
         )}
 
+        {driving && (
+          <Link href="/hud" asChild>
+            <Pressable
+              style={({ pressed }) => [
+                styles.ghostBtn,
+                { borderColor: t.border },
+                pressed && { opacity: 0.9 },
+              ]}
+            >
+              <Text style={[styles.ghostBtnText, { color: t.text }]}>
+                {tr("home.hud")}
+              </Text>
+            </Pressable>
+          </Link>
+        )}
+
+        <Link href="/report" asChild>
+          <Pressable
+            disabled={!canReport}
+            style={({ pressed }) => [
+              styles.ghostBtn,
+              { borderColor: t.border },
+              !canReport && { opacity: 0.5 },
+              pressed && canReport && { opacity: 0.9 },
+            ]}
+          >
+            <Text style={[styles.ghostBtnText, { color: t.text }]}>
+              {tr("home.report")}
+            </Text>
+          </Pressable>
+        </Link>
+        {!canReport && (
+          <Text style={[styles.smallNote, { color: t.muted }]}>{tr("report.simulated")}</Text>
+        )}
+
         <Pressable
           onPress={tick}
           disabled={!driving || busy}
@@ -331,49 +227,26 @@ export default function HomeScreen() {
           ]}
         >
           <Text style={[styles.ghostBtnText, { color: t.text }]}>
-            Probar ahora
+            {tr("home.testNow")}
           </Text>
         </Pressable>
 
+        {pending > 0 && (
+          <Text style={[styles.smallNote, { color: t.muted }]}>
+            {tr("report.pending", { count: pending })}
+          </Text>
+        )}
         <Text style={[styles.smallNote, { color: t.muted }]}>
-          Backend: {BACKEND_BASE_URL}
+          {isFixtureBackend(backendUrl)
+            ? tr("home.demoData")
+            : tr("home.backend", { url: backendUrl })}
         </Text>
       </View>
+      <FeedbackPrompt background={t.card} textColor={t.text} mutedColor={t.muted} />
     </View>
   );
 }
 
-function getTheme(isDark: boolean) {
-  if (isDark) {
-    return {
-      bg: "#0B0F14",
-      card: "#121823",
-      text: "#EAF0F6",
-      muted: "#9AA7B2",
-      border: "#223044",
-      pillBg: "#162233",
-      primary: "#4F8CFF",
-      primaryText: "#071018",
-      dangerBg: "#2A1114",
-      dangerBorder: "#5B1E25",
-      dangerText: "#FFB4BD",
-    };
-  }
-  return {
-    bg: "#F4F6F9",
-    card: "#FFFFFF",
-    text: "#0B1220",
-    muted: "#5E6B78",
-    border: "#E2E8F0",
-    pillBg: "#EEF4FF",
-    primary: "#2563EB",
-    primaryText: "#FFFFFF",
-    dangerBg: "#FFECEF",
-    dangerBorder: "#FFC7D0",
-    dangerText: "#B4232C",
-  };
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -393,6 +266,8 @@ const styles = StyleSheet.create({
     fontSize: 14,
   },
   card: {
+    flexShrink: 1,
+    marginVertical: 12,
     borderWidth: 1,
     borderRadius: 18,
     padding: 16,
@@ -417,6 +292,15 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "700",
   },
+  banner: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+  },
+  bannerText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
   dividerWrap: {
     paddingVertical: 4,
   },
@@ -425,11 +309,6 @@ const styles = StyleSheet.create({
     width: "100%",
     opacity: 0.9,
   },
-  alertText: {
-    fontSize: 18,
-    fontWeight: "800",
-    lineHeight: 24,
-  },
   cardFooter: {
     marginTop: 6,
   },
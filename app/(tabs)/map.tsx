@@ -0,0 +1,116 @@
+import { useMemo, useState } from "react";
+import { ScrollView, StyleSheet, Text, View, useColorScheme } from "react-native";
+
+import { AlertEventFields } from "@/components/alert-fields";
+import { IncidentActions } from "@/components/incident-actions";
+import { IncidentMap } from "@/components/incident-map";
+import { getAppTheme, severityColor } from "@/constants/theme";
+import { describeStatus, useDriving } from "@/hooks/use-driving";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatAge, incidentLabel } from "@/utils/format";
+import { formatDistance } from "@/utils/hits";
+
+export default function MapScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+
+  const { hits, nearbyHits, position, radiusMeters, status, simulation } = useDriving();
+  const { tr } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Seguimos el id para que la ficha se refresque en cada consulta.
+  const selected =
+    [...hits, ...nearbyHits].find((h) => h.event.id === selectedId) ?? null;
+
+  return (
+    <View style={[styles.container, { backgroundColor: t.bg }]}>
+      <IncidentMap
+        hits={hits}
+        mutedHits={nearbyHits}
+        position={position}
+        radiusMeters={radiusMeters}
+        simulated={!!simulation}
+        onSelect={(hit) => setSelectedId(hit?.event.id ?? null)}
+      />
+
+      <View style={[styles.pill, { backgroundColor: t.pillBg, borderColor: t.border }]}>
+        <Text style={[styles.pillText, { color: t.text }]}>
+          {position
+            ? tr("map.summary", {
+                onRoute: hits.length,
+                nearby: nearbyHits.length,
+                status: describeStatus(status),
+              })
+            : tr("map.noPosition")}
+        </Text>
+      </View>
+
+      {selected && (
+        <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+          <View style={styles.row}>
+            <View
+              style={[styles.dot, { backgroundColor: severityColor(selected.event.severity) }]}
+            />
+            <Text style={[styles.cardTitle, { color: t.text }]} numberOfLines={2}>
+              {tr("map.selected", {
+                title: incidentLabel(selected.event),
+                distance: formatDistance(selected.distanceMeters),
+              })}
+              {selected.staleSince !== undefined &&
+                tr("map.stale", { age: formatAge(selected.staleSince) })}
+            </Text>
+          </View>
+          <ScrollView>
+            <AlertEventFields event={selected.event} textColor={t.text} mutedColor={t.muted} />
+            <IncidentActions event={selected.event} t={t} />
+          </ScrollView>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  pill: {
+    position: "absolute",
+    top: 56,
+    alignSelf: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  card: {
+    position: "absolute",
+    left: 12,
+    right: 12,
+    bottom: 12,
+    maxHeight: "55%",
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "800",
+  },
+});
@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  useColorScheme,
+} from "react-native";
+
+import { describeApiError } from "@/api/errors";
+import { SeverityBadge } from "@/components/hit-list";
+import { IncidentIcon } from "@/components/incident-icon";
+import { getAppTheme } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import { checkWatchedRoads, syncWatchedRoadsTask } from "@/tasks/watched-roads";
+import {
+  formatAge,
+  formatDirection,
+  formatLocation,
+  formatPkRange,
+  incidentLabel,
+} from "@/utils/format";
+import { normalizeRoad } from "@/utils/route-filter";
+import {
+  loadLastWatchCheck,
+  loadWatchedRoads,
+  saveWatchedRoads,
+  type WatchCheck,
+  type WatchedRoad,
+} from "@/utils/watched-roads";
+
+const parsePk = (text: string) => Number(text.replace(",", "."));
+
+function describeWatch(w: WatchedRoad) {
+  return [w.road, formatPkRange(w.fromPk, w.toPk), formatDirection(w.direction)]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+export default function RoadsScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+  const { tr } = useI18n();
+
+  const [roads, setRoads] = useState<WatchedRoad[]>([]);
+  const [check, setCheck] = useState<WatchCheck | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [road, setRoad] = useState("");
+  const [fromPk, setFromPk] = useState("");
+  const [toPk, setToPk] = useState("");
+  const [direction, setDirection] = useState("");
+
+  useEffect(() => {
+    loadWatchedRoads().then(setRoads);
+    loadLastWatchCheck().then(setCheck);
+  }, []);
+
+  const normalizedRoad = normalizeRoad(road);
+  const validPk = (text: string) => text.trim() !== "" && Number.isFinite(parsePk(text));
+  const canAdd = !!normalizedRoad && validPk(fromPk) && validPk(toPk);
+
+  async function updateRoads(next: WatchedRoad[]) {
+    setRoads(next);
+    await saveWatchedRoads(next);
+    syncWatchedRoadsTask(next.length > 0).catch(() => {});
+  }
+
+  function add() {
+    if (!canAdd || !normalizedRoad) return;
+    updateRoads([
+      ...roads,
+      {
+        id: `${Date.now()}`,
+        road: normalizedRoad,
+        fromPk: parsePk(fromPk),
+        toPk: parsePk(toPk),
+        direction: direction.trim() || undefined,
+      },
+    ]);
+    setRoad("");
+    setFromPk("");
+    setToPk("");
+    setDirection("");
+  }
+
+  async function checkNow() {
+    setChecking(true);
+    setError(null);
+    try {
+      setCheck(await checkWatchedRoads({ notify: false }));
+    } catch (e) {
+      setError(describeApiError(e));
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  const inputStyle = [
+    styles.input,
+    { color: t.text, borderColor: t.border, backgroundColor: t.bg },
+  ];
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: t.bg }}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={[styles.title, { color: t.text }]}>{tr("roads.title")}</Text>
+      <Text style={[styles.subtitle, { color: t.muted }]}>{tr("roads.subtitle")}</Text>
+
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <View style={styles.row}>
+          <TextInput
+            value={road}
+            onChangeText={setRoad}
+            placeholder="A-6"
+            placeholderTextColor={t.muted}
+            autoCapitalize="characters"
+            style={[inputStyle, styles.grow]}
+          />
+          <TextInput
+            value={fromPk}
+            onChangeText={setFromPk}
+            placeholder={tr("roads.fromPk")}
+            placeholderTextColor={t.muted}
+            keyboardType="decimal-pad"
+            style={[inputStyle, styles.grow]}
+          />
+          <TextInput
+            value={toPk}
+            onChangeText={setToPk}
+            placeholder={tr("roads.toPk")}
+            placeholderTextColor={t.muted}
+            keyboardType="decimal-pad"
+            style={[inputStyle, styles.grow]}
+          />
+        </View>
+        <TextInput
+          value={direction}
+          onChangeText={setDirection}
+          placeholder={tr("roads.directionPlaceholder")}
+          placeholderTextColor={t.muted}
+          style={inputStyle}
+        />
+        <Pressable
+          onPress={add}
+          disabled={!canAdd}
+          style={[styles.primaryBtn, { backgroundColor: t.primary }, !canAdd && { opacity: 0.5 }]}
+        >
+          <Text style={[styles.primaryBtnText, { color: t.primaryText }]}>{tr("roads.add")}</Text>
+        </Pressable>
+
+        {roads.map((w) => (
+          <View key={w.id} style={[styles.item, { borderColor: t.border }]}>
+            <Text style={[styles.itemText, { color: t.text }]}>{describeWatch(w)}</Text>
+            <Pressable
+              hitSlop={10}
+              onPress={() => updateRoads(roads.filter((r) => r.id !== w.id))}
+            >
+              <Text style={[styles.remove, { color: t.dangerText }]}>{tr("roads.remove")}</Text>
+            </Pressable>
+          </View>
+        ))}
+      </View>
+
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <View style={styles.row}>
+          <Text style={[styles.label, { color: t.muted, flex: 1 }]}>
+            {check
+              ? tr("roads.lastCheck", { age: formatAge(check.checkedAt) })
+              : tr("roads.neverChecked")}
+          </Text>
+          <Pressable
+            onPress={checkNow}
+            disabled={checking || !roads.length}
+            style={[
+              styles.ghostBtn,
+              { borderColor: t.border },
+              (checking || !roads.length) && { opacity: 0.5 },
+            ]}
+          >
+            {checking ? (
+              <ActivityIndicator />
+            ) : (
+              <Text style={[styles.ghostBtnText, { color: t.text }]}>{tr("roads.checkNow")}</Text>
+            )}
+          </Pressable>
+        </View>
+
+        {error && <Text style={[styles.hint, { color: t.dangerText }]}>{error}</Text>}
+
+        {check && !check.matches.length && (
+          <Text style={[styles.hint, { color: t.muted }]}>{tr("roads.noMatches")}</Text>
+        )}
+
+        {check?.matches.map(({ event, watchId }) => {
+          const watch = roads.find((r) => r.id === watchId);
+          return (
+            <View key={event.id} style={[styles.item, { borderColor: t.border }]}>
+              <SeverityBadge severity={event.severity} />
+              <IncidentIcon event={event} size={20} color={t.muted} />
+              <View style={styles.grow}>
+                <Text style={[styles.itemText, { color: t.text }]} numberOfLines={1}>
+                  {formatLocation(event)}
+                </Text>
+                <Text style={[styles.hint, { color: t.muted }]} numberOfLines={1}>
+                  {[incidentLabel(event), watch && describeWatch(watch)]
+                    .filter(Boolean)
+                    .join(" • ")}
+                </Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 18,
+    paddingTop: 36,
+    gap: 12,
+  },
+  title: {
+    fontSize: 30,
+    fontWeight: "800",
+    letterSpacing: 0.2,
+  },
+  subtitle: {
+    fontSize: 14,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  grow: {
+    flex: 1,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+  },
+  primaryBtn: {
+    height: 48,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontWeight: "800",
+  },
+  ghostBtn: {
+    height: 40,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  ghostBtnText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderTopWidth: 1,
+    paddingTop: 10,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  remove: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+});
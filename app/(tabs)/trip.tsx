@@ -0,0 +1,334 @@
+import { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  useColorScheme,
+} from "react-native";
+import * as Location from "expo-location";
+
+import { ApiError, describeApiError } from "@/api/errors";
+import { SeverityBadge } from "@/components/hit-list";
+import { IncidentIcon } from "@/components/incident-icon";
+import { RouteMap } from "@/components/route-map";
+import { SegmentedToggle, type SegmentedOption } from "@/components/segmented-toggle";
+import { getAppTheme } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import { useTrip } from "@/hooks/use-trip";
+import type { Coords } from "@/types/alerts";
+import { formatLocation, incidentLabel } from "@/utils/format";
+import { formatDistance } from "@/utils/hits";
+import { parseSegments } from "@/utils/route-plan";
+
+type PickTarget = "origin" | "destination";
+
+const COORDS_TEXT = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+const formatCoords = (c: Coords) => `${c.latitude.toFixed(5)}, ${c.longitude.toFixed(5)}`;
+
+function parseCoords(text: string): Coords | undefined {
+  const m = text.match(COORDS_TEXT);
+  return m ? { latitude: Number(m[1]), longitude: Number(m[2]) } : undefined;
+}
+
+class PlaceNotFoundError extends Error {
+  constructor(readonly place: string) {
+    super(`Place not found: ${place}`);
+  }
+}
+
+/**
+ * "lat, lon" as typed or picked on the map, otherwise the platform geocoder.
+ */
+async function resolvePlace(text: string): Promise<Coords> {
+  const typed = parseCoords(text);
+  if (typed) return typed;
+
+  const [found] = await Location.geocodeAsync(text).catch(() => []);
+  if (!found) throw new PlaceNotFoundError(text.trim());
+  return { latitude: found.latitude, longitude: found.longitude };
+}
+
+export default function TripScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+
+  const { trip, planning, planTrip, clearTrip } = useTrip();
+  const { tr } = useI18n();
+  const pickOptions: SegmentedOption<PickTarget>[] = [
+    { key: "origin", label: tr("common.origin") },
+    { key: "destination", label: tr("common.destination") },
+  ];
+
+  const [originText, setOriginText] = useState("");
+  const [destinationText, setDestinationText] = useState("");
+  const [segmentsText, setSegmentsText] = useState("");
+  const [pickTarget, setPickTarget] = useState<PickTarget>("destination");
+  const [error, setError] = useState<string | null>(null);
+
+  const segments = parseSegments(segmentsText);
+
+  function pick(coords: Coords) {
+    (pickTarget === "origin" ? setOriginText : setDestinationText)(formatCoords(coords));
+  }
+
+  async function search() {
+    setError(null);
+    if (!segments) {
+      setError(tr("trip.badSegments"));
+      return;
+    }
+    if (!destinationText.trim() && !segments.length) {
+      setError(tr("trip.needDestination"));
+      return;
+    }
+    try {
+      let origin: Coords | undefined;
+      let destination: Coords | undefined;
+      if (destinationText.trim()) {
+        destination = await resolvePlace(destinationText);
+        origin = originText.trim()
+          ? await resolvePlace(originText)
+          : (await Location.getCurrentPositionAsync()).coords;
+      }
+      await planTrip({ origin, destination, segments });
+    } catch (e) {
+      if (e instanceof PlaceNotFoundError) setError(tr("trip.placeNotFound", { place: e.place }));
+      else if (e instanceof ApiError) setError(describeApiError(e));
+      else setError(tr("trip.noLocation"));
+    }
+  }
+
+  function clear() {
+    clearTrip();
+    setOriginText("");
+    setDestinationText("");
+    setSegmentsText("");
+    setError(null);
+  }
+
+  const inputStyle = [
+    styles.input,
+    { color: t.text, borderColor: t.border, backgroundColor: t.bg },
+  ];
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: t.bg }}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={[styles.title, { color: t.text }]}>{tr("trip.title")}</Text>
+      <Text style={[styles.subtitle, { color: t.muted }]}>{tr("trip.subtitle")}</Text>
+
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <TextInput
+          value={originText}
+          onChangeText={setOriginText}
+          placeholder={tr("trip.originPlaceholder")}
+          placeholderTextColor={t.muted}
+          style={inputStyle}
+        />
+        <TextInput
+          value={destinationText}
+          onChangeText={setDestinationText}
+          placeholder={tr("common.destination")}
+          placeholderTextColor={t.muted}
+          style={inputStyle}
+        />
+
+        <View style={styles.row}>
+          <Text style={[styles.hint, { color: t.muted }]}>
+            {tr("trip.pickHint")}
+          </Text>
+          <SegmentedToggle
+            options={pickOptions}
+            value={pickTarget}
+            onChange={setPickTarget}
+            t={t}
+          />
+        </View>
+
+        <View style={[styles.map, { borderColor: t.border }]}>
+          <RouteMap
+            polyline={trip?.polyline}
+            origin={trip?.origin ?? parseCoords(originText)}
+            destination={trip?.destination ?? parseCoords(destinationText)}
+            incidents={trip?.incidents ?? []}
+            onPick={pick}
+          />
+        </View>
+
+        <Text style={[styles.label, { color: t.muted }]}>{tr("trip.segments")}</Text>
+        <TextInput
+          value={segmentsText}
+          onChangeText={setSegmentsText}
+          placeholder={"A-6 10-40\nM-30 0-12"}
+          placeholderTextColor={t.muted}
+          multiline
+          autoCapitalize="characters"
+          style={[inputStyle, styles.multiline, !segments && { borderColor: t.dangerBorder }]}
+        />
+
+        {error && <Text style={[styles.hint, { color: t.dangerText }]}>{error}</Text>}
+
+        <View style={styles.row}>
+          <Pressable
+            onPress={search}
+            disabled={planning}
+            style={[
+              styles.primaryBtn,
+              { backgroundColor: t.primary },
+              planning && { opacity: 0.6 },
+            ]}
+          >
+            {planning ? (
+              <ActivityIndicator color={t.primaryText} />
+            ) : (
+              <Text style={[styles.primaryBtnText, { color: t.primaryText }]}>
+                {tr("trip.search")}
+              </Text>
+            )}
+          </Pressable>
+          <Pressable onPress={clear} style={[styles.ghostBtn, { borderColor: t.border }]}>
+            <Text style={[styles.ghostBtnText, { color: t.text }]}>{tr("common.delete")}</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {trip && (
+        <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+          <Text style={[styles.label, { color: t.muted }]}>
+            {trip.incidents.length
+              ? tr("trip.count", { count: trip.incidents.length })
+              : tr("trip.none")}
+          </Text>
+          {trip.incidents.map(({ event, alongMeters }, i) => {
+            const where = formatLocation(event);
+            const detail = [
+              incidentLabel(event),
+              alongMeters !== null &&
+                tr("trip.fromStart", { distance: formatDistance(alongMeters) }),
+            ];
+            return (
+              <View key={event.id} style={[styles.incident, { borderColor: t.border }]}>
+                <Text style={[styles.index, { color: t.muted }]}>{i + 1}</Text>
+                <SeverityBadge severity={event.severity} />
+                <IncidentIcon event={event} size={20} color={t.muted} />
+                <View style={styles.incidentText}>
+                  <Text style={[styles.incidentTitle, { color: t.text }]} numberOfLines={1}>
+                    {where || incidentLabel(event)}
+                  </Text>
+                  <Text style={[styles.hint, { color: t.muted }]} numberOfLines={1}>
+                    {detail.filter(Boolean).join(" • ")}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 18,
+    paddingTop: 36,
+    gap: 12,
+  },
+  title: {
+    fontSize: 30,
+    fontWeight: "800",
+    letterSpacing: 0.2,
+  },
+  subtitle: {
+    fontSize: 14,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+    gap: 10,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  multiline: {
+    height: 80,
+    paddingTop: 10,
+    textAlignVertical: "top",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+    flexShrink: 1,
+  },
+  map: {
+    height: 240,
+    borderWidth: 1,
+    borderRadius: 14,
+    overflow: "hidden",
+  },
+  primaryBtn: {
+    flex: 1,
+    height: 48,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontWeight: "800",
+  },
+  ghostBtn: {
+    height: 48,
+    paddingHorizontal: 16,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  ghostBtnText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  incident: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderTopWidth: 1,
+    paddingTop: 10,
+  },
+  index: {
+    width: 18,
+    fontSize: 13,
+    fontWeight: "800",
+  },
+  incidentText: {
+    flex: 1,
+  },
+  incidentTitle: {
+    fontSize: 15,
+    fontWeight: "800",
+  },
+});
@@ -4,20 +4,67 @@ import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { DrivingProvider } from '@/hooks/use-driving';
+import { useI18n } from '@/hooks/use-i18n';
+import { useIncidentNotifications } from '@/hooks/use-incident-notifications';
+import { ReportsProvider } from '@/hooks/use-reports';
+import { SettingsProvider } from '@/hooks/use-settings';
+import { TripProvider } from '@/hooks/use-trip';
+// Register the background tasks; they must be defined at startup.
+import '@/tasks/driving-location';
+import '@/tasks/watched-roads';
+import { showNotificationsInForeground } from '@/utils/notifications';
 
 export const unstable_settings = {
   anchor: '(tabs)',
 };
 
+showNotificationsInForeground();
+
+// Dentro de SettingsProvider para que los títulos sigan el idioma elegido.
+function RootStack() {
+  const { tr } = useI18n();
+  useIncidentNotifications();
+
+  // solo el modo conducción gira a horizontal
+  return (
+    <Stack screenOptions={{ orientation: 'portrait' }}>
+      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen
+        name="settings"
+        options={{ presentation: 'modal', title: tr('settings.title') }}
+      />
+      <Stack.Screen name="incident/[id]" options={{ title: tr('detail.title') }} />
+      <Stack.Screen
+        name="report"
+        options={{ presentation: 'modal', title: tr('report.title') }}
+      />
+      <Stack.Screen
+        name="simulate"
+        options={{ presentation: 'modal', title: tr('simulate.title') }}
+      />
+      <Stack.Screen
+        name="hud"
+        options={{ presentation: 'fullScreenModal', headerShown: false, orientation: 'all' }}
+      />
+    </Stack>
+  );
+}
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
+      <SettingsProvider>
+        <TripProvider>
+          <ReportsProvider>
+            <DrivingProvider>
+              <RootStack />
+            </DrivingProvider>
+          </ReportsProvider>
+        </TripProvider>
+      </SettingsProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
@@ -0,0 +1,221 @@
+import { useMemo } from "react";
+import {
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+  useColorScheme,
+  useWindowDimensions,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { useKeepAwake } from "expo-keep-awake";
+
+import { FeedbackPrompt } from "@/components/feedback-prompt";
+import { IncidentIcon } from "@/components/incident-icon";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { severityColor } from "@/constants/theme";
+import { describeStatus, useDriving } from "@/hooks/use-driving";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatLocation, incidentLabel } from "@/utils/format";
+import { formatDistance, rankHits } from "@/utils/hits";
+
+// De noche, tonos apagados para no deslumbrar; de día, máximo contraste.
+const HUD_COLORS = {
+  light: {
+    bg: "#FFFFFF",
+    text: "#0F172A",
+    muted: "#475569",
+    stop: "#DC2626",
+    stopText: "#FFFFFF",
+    sim: "#7E22CE",
+  },
+  dark: {
+    bg: "#000000",
+    text: "#CBD5E1",
+    muted: "#64748B",
+    stop: "#7F1D1D",
+    stopText: "#E2E8F0",
+    sim: "#A78BFA",
+  },
+};
+
+/**
+ * Full-screen driving view for a mounted phone: the closest incident on the
+ * route with a big icon and its distance, which DrivingProvider keeps counting
+ * down from the GPS between polls. Keeps the screen awake while open.
+ */
+export default function HudScreen() {
+  useKeepAwake();
+  const router = useRouter();
+  const scheme = useColorScheme();
+  const c = HUD_COLORS[scheme === "dark" ? "dark" : "light"];
+  const { width, height } = useWindowDimensions();
+  const landscape = width > height;
+
+  const { driving, hits, status, simulation, startDriving, stopDriving } = useDriving();
+  const { tr } = useI18n();
+  const next = useMemo(() => rankHits(hits, "distance")[0], [hits]);
+
+  function stop() {
+    stopDriving();
+    router.back();
+  }
+
+  const e = next?.event;
+  const where = e ? formatLocation(e) : "";
+
+  return (
+    <View style={[styles.container, { backgroundColor: c.bg }]}>
+      {simulation && (
+        <Text style={[styles.simBadge, { color: c.sim, borderColor: c.sim }]}>
+          {tr("simulate.badge", { speed: simulation.speedFactor })}
+        </Text>
+      )}
+      <View style={[styles.main, landscape && styles.mainLandscape]}>
+        {e ? (
+          <>
+            <IncidentIcon
+              event={e}
+              size={landscape ? height * 0.45 : width * 0.5}
+              color={severityColor(e.severity)}
+            />
+            <View style={styles.info}>
+              <Text
+                style={[styles.distance, { color: c.text }]}
+                adjustsFontSizeToFit
+                numberOfLines={1}
+              >
+                {formatDistance(next.distanceMeters)}
+              </Text>
+              {!!where && (
+                <Text style={[styles.where, { color: c.text }]} numberOfLines={1}>
+                  {where}
+                </Text>
+              )}
+              <Text style={[styles.title, { color: c.muted }]} numberOfLines={2}>
+                {incidentLabel(e)}
+              </Text>
+            </View>
+          </>
+        ) : (
+          <>
+            <IconSymbol
+              name="road.lanes"
+              size={landscape ? height * 0.35 : width * 0.4}
+              color={c.muted}
+            />
+            <Text style={[styles.where, { color: c.muted }]} numberOfLines={2}>
+              {driving ? describeStatus(status) : tr("hud.stopped")}
+            </Text>
+          </>
+        )}
+      </View>
+
+      {driving ? (
+        <Pressable
+          onPress={stop}
+          accessibilityLabel={tr("hud.stopLabel")}
+          style={({ pressed }) => [
+            styles.stopBtn,
+            { backgroundColor: c.stop },
+            pressed && { opacity: 0.85 },
+          ]}
+        >
+          <Text style={[styles.stopText, { color: c.stopText }]}>{tr("hud.stop")}</Text>
+        </Pressable>
+      ) : (
+        <View style={styles.row}>
+          <Pressable
+            onPress={startDriving}
+            style={({ pressed }) => [
+              styles.stopBtn,
+              styles.grow,
+              { backgroundColor: "#2563EB" },
+              pressed && { opacity: 0.85 },
+            ]}
+          >
+            <Text style={[styles.stopText, { color: "#FFFFFF" }]}>{tr("hud.start")}</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => router.back()}
+            style={({ pressed }) => [
+              styles.stopBtn,
+              styles.grow,
+              { borderColor: c.muted, borderWidth: 2 },
+              pressed && { opacity: 0.85 },
+            ]}
+          >
+            <Text style={[styles.stopText, { color: c.text }]}>{tr("hud.exit")}</Text>
+          </Pressable>
+        </View>
+      )}
+      <FeedbackPrompt background={c.bg} textColor={c.text} mutedColor={c.muted} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 24,
+    gap: 20,
+  },
+  main: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 16,
+  },
+  mainLandscape: {
+    flexDirection: "row",
+    gap: 40,
+  },
+  info: {
+    alignItems: "center",
+    gap: 8,
+    maxWidth: "100%",
+  },
+  distance: {
+    fontSize: 112,
+    fontWeight: "900",
+    fontVariant: ["tabular-nums"],
+  },
+  where: {
+    fontSize: 40,
+    fontWeight: "800",
+    textAlign: "center",
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  row: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  grow: {
+    flex: 1,
+  },
+  stopBtn: {
+    height: 96,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stopText: {
+    fontSize: 32,
+    fontWeight: "900",
+    letterSpacing: 2,
+  },
+  simBadge: {
+    alignSelf: "center",
+    borderWidth: 2,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 4,
+    fontSize: 16,
+    fontWeight: "900",
+    letterSpacing: 1,
+  },
+});
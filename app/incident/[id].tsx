@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+  useColorScheme,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+
+import { getAlert } from "@/api/alerts";
+import { describeApiError, ServerError } from "@/api/errors";
+import { AlertEventFields } from "@/components/alert-fields";
+import { EventMap } from "@/components/event-map";
+import { IncidentActions } from "@/components/incident-actions";
+import { IncidentIcon } from "@/components/incident-icon";
+import { SeverityBadge } from "@/components/hit-list";
+import { getAppTheme } from "@/constants/theme";
+import { useDriving } from "@/hooks/use-driving";
+import { useI18n } from "@/hooks/use-i18n";
+import { useSettings } from "@/hooks/use-settings";
+import { useTrip } from "@/hooks/use-trip";
+import type { AlertEvent } from "@/types/alerts";
+import { formatLocation, incidentLabel } from "@/utils/format";
+import { haversineMeters } from "@/utils/geo";
+import { formatDistance } from "@/utils/hits";
+import { loadIncidentCache } from "@/utils/incident-cache";
+
+const isGone = (error: unknown) => error instanceof ServerError && error.status === 404;
+
+/**
+ * Detail of one incident, opened from `dgtdemo://incident/<id>`, a
+ * notification tap or "Ver detalle". Uses the incidents already in memory
+ * and only asks the backend (or the offline cache) for unknown ids.
+ */
+export default function IncidentScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+  const { tr } = useI18n();
+
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { backendUrl } = useSettings();
+  const { hits, nearbyHits, position } = useDriving();
+  const { trip } = useTrip();
+
+  const hit = [...hits, ...nearbyHits].find((h) => h.event.id === id);
+  const known = hit?.event ?? trip?.incidents.find((i) => i.event.id === id)?.event;
+  const [fetched, setFetched] = useState<AlertEvent | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  const isKnown = !!known;
+  useEffect(() => {
+    if (isKnown) return;
+    let cancelled = false;
+    setError(null);
+    getAlert(id, { baseUrl: backendUrl })
+      .then((event) => !cancelled && setFetched(event))
+      .catch(async (e) => {
+        // sin cobertura puede que aún la tengamos guardada
+        const cached = isGone(e) ? undefined : (await loadIncidentCache())[id]?.event;
+        if (cancelled) return;
+        if (cached) setFetched(cached);
+        else setError(e);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, backendUrl, isKnown]);
+
+  const event = known ?? (fetched?.id === id ? fetched : null);
+
+  if (!event) {
+    return (
+      <View style={[styles.center, { backgroundColor: t.bg }]}>
+        {error ? (
+          <Text style={[styles.hint, { color: t.muted }]}>
+            {isGone(error) ? tr("detail.notFound") : describeApiError(error)}
+          </Text>
+        ) : (
+          <ActivityIndicator />
+        )}
+      </View>
+    );
+  }
+
+  const distanceMeters =
+    hit?.distanceMeters ??
+    (position ? haversineMeters(position, { latitude: event.lat, longitude: event.lon }) : null);
+  const where = formatLocation(event);
+
+  return (
+    <View style={[styles.container, { backgroundColor: t.bg }]}>
+      <View style={styles.map}>
+        <EventMap event={event} position={position} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.row}>
+          <SeverityBadge severity={event.severity} />
+          <IncidentIcon event={event} size={24} color={t.muted} />
+          <Text style={[styles.title, { color: t.text }]} numberOfLines={2}>
+            {incidentLabel(event)}
+          </Text>
+        </View>
+        {!!where && <Text style={[styles.where, { color: t.text }]}>{where}</Text>}
+        {distanceMeters !== null && (
+          <Text style={[styles.distance, { color: t.muted }]}>
+            {tr("detail.distance", { distance: formatDistance(distanceMeters) })}
+          </Text>
+        )}
+
+        <AlertEventFields event={event} textColor={t.text} mutedColor={t.muted} />
+        <IncidentActions event={event} t={t} showDetail={false} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  center: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  map: {
+    height: 260,
+  },
+  content: {
+    padding: 18,
+    gap: 6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: "800",
+  },
+  where: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  distance: {
+    fontSize: 13,
+  },
+  hint: {
+    fontSize: 13,
+    textAlign: "center",
+  },
+});
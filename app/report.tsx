@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState, type ComponentProps } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  useColorScheme,
+} from "react-native";
+import { router } from "expo-router";
+import type * as Location from "expo-location";
+
+import { isFixtureBackend } from "@/api/fixture-backend";
+import { CATEGORY_ICONS } from "@/components/incident-icon";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { getAppTheme } from "@/constants/theme";
+import { useDriving } from "@/hooks/use-driving";
+import { useI18n } from "@/hooks/use-i18n";
+import { useReports } from "@/hooks/use-reports";
+import { useSettings } from "@/hooks/use-settings";
+import { guessCurrentRoad } from "@/utils/location";
+import { REPORT_KINDS, type ReportKind } from "@/utils/reports";
+
+type IconName = ComponentProps<typeof IconSymbol>["name"];
+
+const KIND_ICONS: Record<ReportKind, IconName> = {
+  accident: CATEGORY_ICONS.accident,
+  object: CATEGORY_ICONS.obstacle,
+  animal: "pawprint.fill",
+  jam: CATEGORY_ICONS.congestion,
+  weather: CATEGORY_ICONS.weather,
+};
+
+const MAX_NOTE_LENGTH = 200;
+
+/**
+ * "Avisar": the driver reports an incident where they are. Position,
+ * heading and road are captured when the screen opens, not when sending.
+ */
+export default function ReportScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+  const { tr } = useI18n();
+
+  const { driving, simulation, locate, tick } = useDriving();
+  const { submit } = useReports();
+  const { backendUrl } = useSettings();
+  // una posición simulada no puede llegar al backend real como aviso
+  const canReport = !simulation || isFixtureBackend(backendUrl);
+  const [fix, setFix] = useState<Location.LocationObject | null>(null);
+  const [road, setRoad] = useState<string | null>(null);
+  const [locateFailed, setLocateFailed] = useState(false);
+  const [kind, setKind] = useState<ReportKind | null>(null);
+  const [note, setNote] = useState("");
+  const [sending, setSending] = useState(false);
+
+  // una sola lectura, al abrir: el aviso es de donde estaba el conductor entonces
+  useEffect(() => {
+    let cancelled = false;
+    locate()
+      .then(async (pos) => {
+        const guess = await guessCurrentRoad(pos.coords);
+        if (cancelled) return;
+        setFix(pos);
+        setRoad(guess);
+      })
+      .catch(() => !cancelled && setLocateFailed(true));
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function send() {
+    if (!fix || !kind || !canReport) return;
+    setSending(true);
+    const { latitude, longitude, heading, speed } = fix.coords;
+    const sent = await submit({
+      kind,
+      note: note.trim() || undefined,
+      lat: latitude,
+      lon: longitude,
+      heading,
+      speed,
+      road,
+    });
+    // que aparezca ya en la lista en lugar de esperar a la siguiente consulta
+    if (driving) tick();
+    Alert.alert(tr(sent ? "report.sent" : "report.queued"));
+    router.back();
+  }
+
+  const where = fix
+    ? [road, `${fix.coords.latitude.toFixed(5)}, ${fix.coords.longitude.toFixed(5)}`]
+        .filter(Boolean)
+        .join(" • ")
+    : null;
+
+  return (
+    <ScrollView style={{ backgroundColor: t.bg }} contentContainerStyle={styles.container}>
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <Text style={[styles.label, { color: t.muted }]}>{tr("report.where")}</Text>
+        {where ? (
+          <Text style={[styles.where, { color: t.text }]}>{where}</Text>
+        ) : locateFailed ? (
+          <Text style={[styles.where, { color: t.dangerText }]}>{tr("trip.noLocation")}</Text>
+        ) : (
+          <View style={styles.loadingRow}>
+            <ActivityIndicator />
+            <Text style={[styles.hint, { color: t.muted }]}>{tr("status.locating")}</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <Text style={[styles.label, { color: t.muted }]}>{tr("report.kind")}</Text>
+        <View style={styles.kinds}>
+          {REPORT_KINDS.map((k) => {
+            const selected = k === kind;
+            return (
+              <Pressable
+                key={k}
+                onPress={() => setKind(k)}
+                accessibilityState={{ selected }}
+                style={[
+                  styles.kindBtn,
+                  { borderColor: selected ? t.primary : t.border },
+                  selected && { backgroundColor: t.pillBg },
+                ]}
+              >
+                <IconSymbol name={KIND_ICONS[k]} size={26} color={selected ? t.primary : t.muted} />
+                <Text style={[styles.kindText, { color: t.text }]}>{tr(`report.kind.${k}`)}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Text style={[styles.label, { color: t.muted }]}>{tr("report.note")}</Text>
+        <TextInput
+          value={note}
+          onChangeText={setNote}
+          placeholder={tr("report.notePlaceholder")}
+          placeholderTextColor={t.muted}
+          maxLength={MAX_NOTE_LENGTH}
+          multiline
+          style={[styles.input, { color: t.text, borderColor: t.border, backgroundColor: t.bg }]}
+        />
+      </View>
+
+      {!canReport && (
+        <Text style={[styles.hint, { color: t.dangerText }]}>{tr("report.simulated")}</Text>
+      )}
+      <Pressable
+        onPress={send}
+        disabled={!fix || !kind || sending || !canReport}
+        style={[
+          styles.primaryBtn,
+          { backgroundColor: t.primary },
+          (!fix || !kind || sending || !canReport) && { opacity: 0.5 },
+        ]}
+      >
+        <Text style={[styles.primaryBtnText, { color: t.primaryText }]}>
+          {tr("report.send")}
+        </Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 18,
+    gap: 12,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+  },
+  where: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  loadingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  kinds: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  kindBtn: {
+    width: "31%",
+    flexGrow: 1,
+    minHeight: 76,
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 8,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  kindText: {
+    fontSize: 13,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  input: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    textAlignVertical: "top",
+  },
+  primaryBtn: {
+    height: 54,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "800",
+  },
+});
@@ -0,0 +1,486 @@
+import { useMemo, useState, type ComponentProps } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+  useColorScheme,
+} from "react-native";
+import { Link } from "expo-router";
+
+import { pingBackend } from "@/api/alerts";
+import { clearDatex2File, datex2File, loadDatex2File } from "@/api/datex2";
+import { describeApiError } from "@/api/errors";
+import { FIXTURE_BACKEND_URL, isFixtureBackend } from "@/api/fixture-backend";
+import { SegmentedToggle, type SegmentedOption } from "@/components/segmented-toggle";
+import { getAppTheme, type AppTheme } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import { DEFAULT_SETTINGS, useSettings, type AlertMode } from "@/hooks/use-settings";
+import { LOCALE_NAMES, LOCALES, type LanguagePreference } from "@/i18n";
+import { parseThresholds, THRESHOLD_RANGE } from "@/utils/alert-tracker";
+import {
+  INCIDENT_CATEGORIES,
+  type CategoryRule,
+  type IncidentCategory,
+} from "@/utils/incident-filter";
+import { pickTextFile } from "@/utils/pick-file";
+
+const MIN_SEVERITIES = [2, 3, 4];
+
+const RADIUS_RANGE = { min: 100, max: 50000 };
+const INTERVAL_RANGE_S = { min: 5, max: 600 };
+
+function inRange(value: number, range: { min: number; max: number }) {
+  return Number.isInteger(value) && value >= range.min && value <= range.max;
+}
+
+function SettingInput({
+  label,
+  hint,
+  error,
+  t,
+  ...props
+}: ComponentProps<typeof TextInput> & {
+  label: string;
+  hint?: string;
+  error?: string | null;
+  t: AppTheme;
+}) {
+  return (
+    <View style={styles.field}>
+      <Text style={[styles.label, { color: t.muted }]}>{label}</Text>
+      <TextInput
+        {...props}
+        placeholderTextColor={t.muted}
+        style={[
+          styles.input,
+          {
+            color: t.text,
+            borderColor: error ? t.dangerBorder : t.border,
+            backgroundColor: t.bg,
+          },
+        ]}
+      />
+      {(error || hint) && (
+        <Text style={[styles.hint, { color: error ? t.dangerText : t.muted }]}>
+          {error ?? hint}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+export default function SettingsScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+
+  const settings = useSettings();
+  const { tr } = useI18n();
+
+  const alertModeOptions: SegmentedOption<AlertMode>[] = [
+    { key: "beep", label: tr("settings.beep") },
+    { key: "voice", label: tr("settings.voice") },
+    { key: "both", label: tr("settings.both") },
+  ];
+  const minSeverityOptions: SegmentedOption<string>[] = [
+    { key: "0", label: tr("settings.allSeverities") },
+    ...MIN_SEVERITIES.map((n) => ({ key: String(n), label: `≥ ${n}` })),
+  ];
+  const ruleOptions: SegmentedOption<CategoryRule>[] = [
+    { key: "default", label: tr("settings.ruleDefault") },
+    { key: "ignore", label: tr("settings.ruleIgnore") },
+    { key: "always", label: tr("settings.ruleAlways") },
+  ];
+  const languageOptions: SegmentedOption<LanguagePreference>[] = [
+    { key: "system", label: tr("settings.languageSystem") },
+    ...LOCALES.map((l) => ({ key: l, label: l.toUpperCase() })),
+  ];
+
+  const [url, setUrl] = useState(settings.backendUrl);
+  const [radius, setRadius] = useState(String(settings.radiusMeters));
+  const [interval, setIntervalText] = useState(String(settings.pollIntervalMs / 1000));
+  const [thresholds, setThresholds] = useState(settings.alertThresholds.join(", "));
+
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [datexFile, setDatexFile] = useState(datex2File);
+  const [datexFailed, setDatexFailed] = useState(false);
+
+  const urlError =
+    /^https?:\/\/\S+$/.test(url.trim()) || isFixtureBackend(url.trim())
+      ? null
+      : tr("settings.urlError");
+  const radiusError = inRange(Number(radius), RADIUS_RANGE)
+    ? null
+    : tr("settings.radiusError", RADIUS_RANGE);
+  const intervalError = inRange(Number(interval), INTERVAL_RANGE_S)
+    ? null
+    : tr("settings.intervalError", INTERVAL_RANGE_S);
+  const parsedThresholds = parseThresholds(thresholds);
+  const thresholdsError = parsedThresholds
+    ? null
+    : tr("settings.thresholdsError", THRESHOLD_RANGE);
+  const valid = !urlError && !radiusError && !intervalError && !thresholdsError;
+
+  async function pickDatexFile() {
+    setDatexFailed(false);
+    try {
+      const picked = await pickTextFile(["application/xml", "text/xml", "*/*"]);
+      if (picked) setDatexFile(loadDatex2File(picked.name, picked.text));
+    } catch {
+      setDatexFailed(true);
+    }
+  }
+
+  function clearDatexFile() {
+    clearDatex2File();
+    setDatexFile(null);
+  }
+
+  async function testConnection() {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const ms = await pingBackend(url.trim().replace(/\/+$/, ""));
+      setTestResult({ ok: true, text: tr("settings.connected", { ms }) });
+    } catch (e) {
+      setTestResult({ ok: false, text: describeApiError(e) });
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  function save() {
+    if (!valid || !parsedThresholds) return;
+    settings.update({
+      backendUrl: url.trim().replace(/\/+$/, ""),
+      radiusMeters: Number(radius),
+      pollIntervalMs: Number(interval) * 1000,
+      alertThresholds: parsedThresholds,
+    });
+    setSaved(true);
+  }
+
+  function restoreDefaults() {
+    setUrl(DEFAULT_SETTINGS.backendUrl);
+    setRadius(String(DEFAULT_SETTINGS.radiusMeters));
+    setIntervalText(String(DEFAULT_SETTINGS.pollIntervalMs / 1000));
+    setThresholds(DEFAULT_SETTINGS.alertThresholds.join(", "));
+    setSaved(false);
+  }
+
+  const { filters } = settings;
+  function setRule(category: IncidentCategory, rule: CategoryRule) {
+    settings.update({ filters: { ...filters, rules: { ...filters.rules, [category]: rule } } });
+  }
+
+  const onEdit =
+    (setter: (value: string) => void) =>
+    (value: string) => {
+      setter(value);
+      setSaved(false);
+    };
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: t.bg }}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <SettingInput
+          label={tr("settings.url")}
+          value={url}
+          onChangeText={onEdit(setUrl)}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          error={urlError}
+          hint={tr("settings.urlHint")}
+          t={t}
+        />
+
+        <View style={styles.row}>
+          <Pressable
+            onPress={testConnection}
+            disabled={testing || !!urlError}
+            style={[
+              styles.ghostBtn,
+              { borderColor: t.border },
+              (testing || !!urlError) && { opacity: 0.5 },
+            ]}
+          >
+            <Text style={[styles.ghostBtnText, { color: t.text }]}>{tr("settings.test")}</Text>
+          </Pressable>
+          {testing && <ActivityIndicator />}
+          {!testing && !testResult && !isFixtureBackend(url.trim()) && (
+            <Pressable
+              onPress={() => onEdit(setUrl)(FIXTURE_BACKEND_URL)}
+              style={[styles.ghostBtn, { borderColor: t.border }]}
+            >
+              <Text style={[styles.ghostBtnText, { color: t.text }]}>
+                {tr("settings.demoData")}
+              </Text>
+            </Pressable>
+          )}
+          {testResult && (
+            <Text
+              style={[styles.testResult, { color: testResult.ok ? t.text : t.dangerText }]}
+              numberOfLines={2}
+            >
+              {testResult.text}
+            </Text>
+          )}
+        </View>
+
+        <SettingInput
+          label={tr("settings.radius")}
+          value={radius}
+          onChangeText={onEdit(setRadius)}
+          keyboardType="number-pad"
+          error={radiusError}
+          t={t}
+        />
+
+        <SettingInput
+          label={tr("settings.interval")}
+          value={interval}
+          onChangeText={onEdit(setIntervalText)}
+          keyboardType="number-pad"
+          error={intervalError}
+          t={t}
+        />
+
+        <SettingInput
+          label={tr("settings.thresholds")}
+          value={thresholds}
+          onChangeText={onEdit(setThresholds)}
+          keyboardType="numbers-and-punctuation"
+          error={thresholdsError}
+          hint={tr("settings.thresholdsHint")}
+          t={t}
+        />
+
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: t.muted }]}>{tr("settings.alertMode")}</Text>
+          <SegmentedToggle
+            options={alertModeOptions}
+            value={settings.alertMode}
+            onChange={(mode) => settings.update({ alertMode: mode })}
+            t={t}
+          />
+        </View>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <Text style={[styles.label, { color: t.text }]}>{tr("settings.streaming")}</Text>
+            <Text style={[styles.hint, { color: t.muted }]}>{tr("settings.streamingHint")}</Text>
+          </View>
+          <Switch
+            value={settings.streaming}
+            onValueChange={(streaming) => settings.update({ streaming })}
+          />
+        </View>
+
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: t.muted }]}>{tr("settings.language")}</Text>
+          <SegmentedToggle
+            options={languageOptions}
+            value={settings.language}
+            onChange={(language) => settings.update({ language })}
+            t={t}
+          />
+          {settings.language !== "system" && (
+            <Text style={[styles.hint, { color: t.muted }]}>
+              {LOCALE_NAMES[settings.language]}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: t.muted }]}>{tr("settings.minSeverity")}</Text>
+          <SegmentedToggle
+            options={minSeverityOptions}
+            value={String(filters.minSeverity)}
+            onChange={(min) =>
+              settings.update({ filters: { ...filters, minSeverity: Number(min) } })
+            }
+            t={t}
+          />
+          <Text style={[styles.hint, { color: t.muted }]}>{tr("settings.filtersHint")}</Text>
+        </View>
+
+        {INCIDENT_CATEGORIES.map((category) => (
+          <View key={category} style={styles.ruleRow}>
+            <Text style={[styles.label, styles.switchText, { color: t.text }]}>
+              {tr(`category.${category}`)}
+            </Text>
+            <SegmentedToggle
+              options={ruleOptions}
+              value={filters.rules[category] ?? "default"}
+              onChange={(rule) => setRule(category, rule)}
+              t={t}
+            />
+          </View>
+        ))}
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <Text style={[styles.label, { color: t.text }]}>{tr("settings.vibration")}</Text>
+            <Text style={[styles.hint, { color: t.muted }]}>{tr("settings.vibrationHint")}</Text>
+          </View>
+          <Switch
+            value={settings.vibration}
+            onValueChange={(vibration) => settings.update({ vibration })}
+          />
+        </View>
+      </View>
+
+      <Pressable
+        onPress={save}
+        disabled={!valid}
+        style={({ pressed }) => [
+          styles.primaryBtn,
+          { backgroundColor: t.primary },
+          !valid && { opacity: 0.5 },
+          pressed && valid && { opacity: 0.9 },
+        ]}
+      >
+        <Text style={[styles.primaryBtnText, { color: t.primaryText }]}>
+          {saved ? tr("settings.saved") : tr("settings.save")}
+        </Text>
+      </Pressable>
+
+      <Pressable onPress={restoreDefaults} style={[styles.ghostBtn, { borderColor: t.border }]}>
+        <Text style={[styles.ghostBtnText, { color: t.text }]}>{tr("settings.defaults")}</Text>
+      </Pressable>
+
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: t.text }]}>{tr("settings.datex")}</Text>
+          <Text style={[styles.hint, { color: t.muted }]}>{tr("settings.datexHint")}</Text>
+        </View>
+        {datexFile && (
+          <Text style={[styles.label, { color: t.text }]} numberOfLines={2}>
+            {tr("settings.datexFile", {
+              name: datexFile.name,
+              count: datexFile.events.length,
+            })}
+          </Text>
+        )}
+        {datexFailed && (
+          <Text style={[styles.hint, { color: t.dangerText }]}>{tr("settings.datexInvalid")}</Text>
+        )}
+        <View style={styles.row}>
+          <Pressable onPress={pickDatexFile} style={[styles.ghostBtn, { borderColor: t.border }]}>
+            <Text style={[styles.ghostBtnText, { color: t.text }]}>
+              {tr("settings.datexLoad")}
+            </Text>
+          </Pressable>
+          {datexFile && (
+            <Pressable
+              onPress={clearDatexFile}
+              style={[styles.ghostBtn, { borderColor: t.border }]}
+            >
+              <Text style={[styles.ghostBtnText, { color: t.text }]}>
+                {tr("settings.datexClear")}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+
+      <Link href="/simulate" asChild>
+        <Pressable style={[styles.ghostBtn, { borderColor: t.simBorder }]}>
+          <Text style={[styles.ghostBtnText, { color: t.simText }]}>{tr("simulate.title")}</Text>
+        </Pressable>
+      </Link>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 18,
+    gap: 12,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+    gap: 16,
+  },
+  field: {
+    gap: 6,
+    alignItems: "flex-start",
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  input: {
+    alignSelf: "stretch",
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    fontSize: 15,
+  },
+  hint: {
+    fontSize: 12,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  ruleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  switchText: {
+    flex: 1,
+    gap: 4,
+  },
+  testResult: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  primaryBtn: {
+    height: 54,
+    borderRadius: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "800",
+  },
+  ghostBtn: {
+    height: 44,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  ghostBtnText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+  useColorScheme,
+} from "react-native";
+
+import { SegmentedToggle, type SegmentedOption } from "@/components/segmented-toggle";
+import { getAppTheme } from "@/constants/theme";
+import { useDriving } from "@/hooks/use-driving";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatDateTime } from "@/i18n";
+import { formatDuration } from "@/utils/format";
+import { pickTextFile } from "@/utils/pick-file";
+import { parseTrack, trackTimeline, type ReplayTrack } from "@/utils/track-replay";
+import { loadTripHistory, type TripLog } from "@/utils/trip-history";
+
+const SPEEDS = [1, 5, 10, 30];
+
+async function readTrackFile() {
+  const picked = await pickTextFile([
+    "application/gpx+xml",
+    "application/json",
+    "application/xml",
+    "text/*",
+    "*/*",
+  ]);
+  return picked && parseTrack(picked.name, picked.text);
+}
+
+/**
+ * Developer tool: drives the app from a recorded GPX/JSON track instead of
+ * the GPS, at real or accelerated speed.
+ */
+export default function SimulateScreen() {
+  const scheme = useColorScheme();
+  const isDark = scheme === "dark";
+  const t = useMemo(() => getAppTheme(isDark), [isDark]);
+  const { tr } = useI18n();
+
+  const { simulation, startSimulation, stopDriving } = useDriving();
+  const [track, setTrack] = useState<ReplayTrack | null>(null);
+  const [speed, setSpeed] = useState("5");
+  const [failed, setFailed] = useState(false);
+  const [trips, setTrips] = useState<TripLog[]>([]);
+
+  useEffect(() => {
+    loadTripHistory().then((all) => setTrips(all.filter((trip) => trip.track.length >= 2)));
+  }, []);
+
+  const speedOptions: SegmentedOption<string>[] = SPEEDS.map((n) => ({
+    key: String(n),
+    label: `${n}×`,
+  }));
+
+  async function pickFile() {
+    setFailed(false);
+    try {
+      const picked = await readTrackFile();
+      if (picked) setTrack(picked);
+    } catch {
+      setFailed(true);
+    }
+  }
+
+  function pickTrip(trip: TripLog) {
+    setFailed(false);
+    setTrack({ name: formatDateTime(trip.startedAt), points: trip.track });
+  }
+
+  const duration = track ? trackTimeline(track.points).at(-1)! : 0;
+
+  return (
+    <ScrollView style={{ backgroundColor: t.bg }} contentContainerStyle={styles.container}>
+      <Text style={[styles.hint, { color: t.muted }]}>{tr("simulate.subtitle")}</Text>
+
+      <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+        <Pressable onPress={pickFile} style={[styles.ghostBtn, { borderColor: t.border }]}>
+          <Text style={[styles.ghostBtnText, { color: t.text }]}>{tr("simulate.pickFile")}</Text>
+        </Pressable>
+        {failed && (
+          <View>
+            <Text style={[styles.label, { color: t.dangerText }]}>{tr("simulate.invalid")}</Text>
+            <Text style={[styles.hint, { color: t.muted }]}>{tr("simulate.invalidHint")}</Text>
+          </View>
+        )}
+
+        {trips.length > 0 && (
+          <Text style={[styles.label, { color: t.muted }]}>{tr("simulate.recorded")}</Text>
+        )}
+        {trips.map((trip) => (
+          <Pressable
+            key={trip.id}
+            onPress={() => pickTrip(trip)}
+            style={[styles.tripRow, { borderColor: t.border }]}
+          >
+            <Text style={[styles.tripText, { color: t.text }]}>
+              {formatDateTime(trip.startedAt)}
+            </Text>
+            <Text style={[styles.hint, { color: t.muted }]}>
+              {tr("simulate.points", {
+                count: trip.track.length,
+                duration: formatDuration((trip.endedAt ?? trip.startedAt) - trip.startedAt),
+              })}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {track && (
+        <View style={[styles.card, { backgroundColor: t.card, borderColor: t.border }]}>
+          <Text style={[styles.tripText, { color: t.text }]} numberOfLines={1}>
+            {track.name}
+          </Text>
+          <Text style={[styles.hint, { color: t.muted }]}>
+            {tr("simulate.points", {
+              count: track.points.length,
+              duration: formatDuration(duration),
+            })}
+          </Text>
+          <Text style={[styles.label, { color: t.muted }]}>{tr("simulate.speed")}</Text>
+          <SegmentedToggle options={speedOptions} value={speed} onChange={setSpeed} t={t} />
+        </View>
+      )}
+
+      {simulation ? (
+        <Pressable
+          onPress={stopDriving}
+          style={[styles.primaryBtn, { backgroundColor: t.simBg, borderColor: t.simBorder }]}
+        >
+          <Text style={[styles.primaryBtnText, { color: t.simText }]}>
+            {tr("simulate.stop")}
+          </Text>
+        </Pressable>
+      ) : (
+        <Pressable
+          onPress={() => track && startSimulation(track, Number(speed))}
+          disabled={!track}
+          style={[styles.primaryBtn, { backgroundColor: t.primary }, !track && { opacity: 0.5 }]}
+        >
+          <Text style={[styles.primaryBtnText, { color: t.primaryText }]}>
+            {tr("simulate.start")}
+          </Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 18,
+    gap: 12,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 18,
+    padding: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  hint: {
+    fontSize: 12,
+  },
+  tripRow: {
+    borderTopWidth: 1,
+    paddingTop: 10,
+    gap: 2,
+  },
+  tripText: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  primaryBtn: {
+    height: 54,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "transparent",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryBtnText: {
+    fontSize: 16,
+    fontWeight: "800",
+  },
+  ghostBtn: {
+    height: 44,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  ghostBtnText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
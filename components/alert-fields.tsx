@@ -0,0 +1,85 @@
+import { Text, View } from "react-native";
+
+import { useI18n } from "@/hooks/use-i18n";
+import type { AlertEvent } from "@/types/alerts";
+import {
+  formatCause,
+  formatDirection,
+  formatOrientation,
+  formatPk,
+  formatSource,
+  formatStartTime,
+  incidentLabel,
+} from "@/utils/format";
+
+export function Field({
+  label,
+  value,
+  textColor,
+  mutedColor,
+}: {
+  label: string;
+  value?: string | number | null;
+  textColor: string;
+  mutedColor: string;
+}) {
+  if (value === undefined || value === null || value === "") return null;
+  return (
+    <Text style={{ color: textColor, lineHeight: 20 }}>
+      <Text style={{ color: mutedColor, fontWeight: "800" }}>{label}: </Text>
+      {String(value)}
+    </Text>
+  );
+}
+
+export function AlertEventFields({
+  event: e,
+  textColor,
+  mutedColor,
+}: {
+  event: AlertEvent;
+  textColor: string;
+  mutedColor: string;
+}) {
+  const { tr } = useI18n();
+  const colors = { textColor, mutedColor };
+  return (
+    <View style={{ gap: 6, marginTop: 10 }}>
+      <Field label={tr("field.type")} value={incidentLabel(e)} {...colors} />
+      <Field label={tr("field.cause")} value={formatCause(e.cause)} {...colors} />
+      <Field label={tr("field.note")} value={e.note} {...colors} />
+      <Field label={tr("field.road")} value={e.road} {...colors} />
+      <Field label={tr("field.pk")} value={formatPk(e)} {...colors} />
+      <Field label={tr("field.direction")} value={formatDirection(e.direction)} {...colors} />
+      <Field
+        label={tr("field.orientation")}
+        value={formatOrientation(e.orientation)}
+        {...colors}
+      />
+      <Field
+        label={tr("field.since")}
+        value={e.startTime && formatStartTime(e.startTime)}
+        {...colors}
+      />
+      <Field label={tr("field.province")} value={e.province} {...colors} />
+      <Field label={tr("field.municipality")} value={e.municipality} {...colors} />
+      <Field label={tr("field.source")} value={formatSource(e.source)} {...colors} />
+
+      <Field
+        label={tr("field.coords")}
+        value={`${e.lat.toFixed(5)}, ${e.lon.toFixed(5)}`}
+        {...colors}
+      />
+      <Field label={tr("field.severity")} value={e.severity ?? null} {...colors} />
+      <Field
+        label={tr("field.feedback")}
+        value={
+          e.confirmedCount !== undefined || e.clearedCount !== undefined
+            ? tr("feedback.counts", { yes: e.confirmedCount ?? 0, no: e.clearedCount ?? 0 })
+            : null
+        }
+        {...colors}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import { StyleSheet } from "react-native";
+import MapView, { Marker } from "react-native-maps";
+
+import { severityColor } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import type { AlertEvent, Coords } from "@/types/alerts";
+import { formatLocation, incidentLabel } from "@/utils/format";
+
+export type EventMapProps = {
+  event: AlertEvent;
+  /** the driver, if known: the map fits both */
+  position?: Coords | null;
+};
+
+const EVENT_DELTA = 0.02;
+const EDGE_PADDING = { top: 60, right: 60, bottom: 60, left: 60 };
+
+export function EventMap({ event, position }: EventMapProps) {
+  const mapRef = useRef<MapView>(null);
+  // las etiquetas del marcador dependen del idioma activo
+  useI18n();
+
+  const coords = { latitude: event.lat, longitude: event.lon };
+
+  useEffect(() => {
+    if (!position) return;
+    mapRef.current?.fitToCoordinates([{ latitude: event.lat, longitude: event.lon }, position], {
+      edgePadding: EDGE_PADDING,
+      animated: true,
+    });
+  }, [event.lat, event.lon, position]);
+
+  return (
+    <MapView
+      ref={mapRef}
+      style={StyleSheet.absoluteFill}
+      showsUserLocation
+      initialRegion={{ ...coords, latitudeDelta: EVENT_DELTA, longitudeDelta: EVENT_DELTA }}
+    >
+      <Marker
+        coordinate={coords}
+        pinColor={severityColor(event.severity)}
+        title={incidentLabel(event)}
+        description={formatLocation(event)}
+      />
+    </MapView>
+  );
+}
@@ -0,0 +1,143 @@
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { IncidentIcon } from "@/components/incident-icon";
+import { useDriving } from "@/hooks/use-driving";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatLocation, incidentLabel } from "@/utils/format";
+
+const YES_COLOR = "#16A34A";
+const NO_COLOR = "#DC2626";
+
+/**
+ * Full-screen "¿Sigue ahí?" overlay while passing an incident: two big
+ * buttons that can be hit without looking, plus a small "Ignorar". Renders
+ * nothing when there is no question pending.
+ */
+export function FeedbackPrompt({
+  background,
+  textColor,
+  mutedColor,
+}: {
+  background: string;
+  textColor: string;
+  mutedColor: string;
+}) {
+  const { feedbackPrompt, answerFeedback } = useDriving();
+  const { tr } = useI18n();
+  if (!feedbackPrompt) return null;
+
+  const e = feedbackPrompt.event;
+  const where = formatLocation(e);
+  return (
+    <View style={styles.backdrop}>
+      <View style={[styles.card, { backgroundColor: background }]}>
+        <View style={styles.header}>
+          <IncidentIcon event={e} size={40} color={mutedColor} />
+          <View style={styles.headerText}>
+            <Text style={[styles.label, { color: textColor }]} numberOfLines={1}>
+              {incidentLabel(e)}
+            </Text>
+            {!!where && (
+              <Text style={[styles.where, { color: mutedColor }]} numberOfLines={1}>
+                {where}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        <Text style={[styles.question, { color: textColor }]}>{tr("feedback.question")}</Text>
+
+        <View style={styles.answers}>
+          <Pressable
+            onPress={() => answerFeedback(true)}
+            style={({ pressed }) => [
+              styles.answerBtn,
+              { backgroundColor: YES_COLOR },
+              pressed && { opacity: 0.85 },
+            ]}
+          >
+            <Text style={styles.answerText}>{tr("feedback.yes")}</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => answerFeedback(false)}
+            style={({ pressed }) => [
+              styles.answerBtn,
+              { backgroundColor: NO_COLOR },
+              pressed && { opacity: 0.85 },
+            ]}
+          >
+            <Text style={styles.answerText}>{tr("feedback.no")}</Text>
+          </Pressable>
+        </View>
+
+        <Pressable onPress={() => answerFeedback(null)} hitSlop={12} style={styles.dismiss}>
+          <Text style={[styles.dismissText, { color: mutedColor }]}>
+            {tr("feedback.dismiss")}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0,0,0,0.55)",
+    justifyContent: "center",
+    padding: 18,
+  },
+  card: {
+    borderRadius: 24,
+    padding: 20,
+    gap: 18,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+    gap: 2,
+  },
+  label: {
+    fontSize: 18,
+    fontWeight: "800",
+  },
+  where: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  question: {
+    fontSize: 34,
+    fontWeight: "900",
+    textAlign: "center",
+  },
+  answers: {
+    flexDirection: "row",
+    gap: 14,
+  },
+  answerBtn: {
+    flex: 1,
+    height: 110,
+    borderRadius: 22,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 8,
+  },
+  answerText: {
+    color: "#FFFFFF",
+    fontSize: 24,
+    fontWeight: "900",
+    textAlign: "center",
+  },
+  dismiss: {
+    alignSelf: "center",
+    paddingVertical: 4,
+  },
+  dismissText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
+
+import { AlertEventFields } from "@/components/alert-fields";
+import { IncidentActions } from "@/components/incident-actions";
+import { IncidentIcon } from "@/components/incident-icon";
+import { SegmentedToggle, type SegmentedOption } from "@/components/segmented-toggle";
+import { severityColor, type AppTheme } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import type { AlertHit } from "@/types/alerts";
+import { formatAge, formatLocation, incidentLabel } from "@/utils/format";
+import { formatDistance, type HitSort } from "@/utils/hits";
+import { isReportedCleared } from "@/utils/incident-feedback";
+
+export function SeverityBadge({ severity }: { severity?: number }) {
+  return (
+    <View style={[styles.badge, { backgroundColor: severityColor(severity) }]}>
+      <Text style={styles.badgeText}>{severity ?? "–"}</Text>
+    </View>
+  );
+}
+
+export function HitSortToggle({
+  value,
+  onChange,
+  t,
+}: {
+  value: HitSort;
+  onChange: (sort: HitSort) => void;
+  t: AppTheme;
+}) {
+  const { tr } = useI18n();
+  const options: SegmentedOption<HitSort>[] = [
+    { key: "distance", label: tr("hits.sortDistance") },
+    { key: "severity", label: tr("hits.sortSeverity") },
+  ];
+  return <SegmentedToggle options={options} value={value} onChange={onChange} t={t} />;
+}
+
+function HitRow({
+  hit,
+  expanded,
+  muted,
+  onPress,
+  t,
+}: {
+  hit: AlertHit;
+  expanded: boolean;
+  muted?: boolean;
+  onPress: () => void;
+  t: AppTheme;
+}) {
+  const { tr } = useI18n();
+  const e = hit.event;
+  const where = formatLocation(e);
+  const label = incidentLabel(e);
+  // varios conductores dicen que ya no está: se atenúa aunque siga en el feed
+  const cleared = isReportedCleared(e);
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[styles.row, { borderColor: t.border }, (muted || cleared) && styles.muted]}
+    >
+      <View style={styles.rowMain}>
+        <SeverityBadge severity={e.severity} />
+        <IncidentIcon event={e} size={20} color={t.muted} />
+        <View style={styles.rowText}>
+          <Text style={[styles.rowTitle, { color: t.text }]} numberOfLines={1}>
+            {where || label}
+          </Text>
+          {!!where && (
+            <Text style={[styles.rowSub, { color: t.muted }]} numberOfLines={1}>
+              {label}
+            </Text>
+          )}
+          {e.source === "user" && (
+            <Text style={[styles.rowSub, { color: t.primary }]} numberOfLines={1}>
+              {tr("source.user")}
+            </Text>
+          )}
+          {cleared && (
+            <Text style={[styles.rowStale, { color: t.muted }]} numberOfLines={1}>
+              {tr("feedback.cleared", { count: e.clearedCount ?? 0 })}
+            </Text>
+          )}
+          {hit.staleSince !== undefined && (
+            <Text style={[styles.rowStale, { color: t.dangerText }]} numberOfLines={1}>
+              {tr("hits.stale", { age: formatAge(hit.staleSince) })}
+            </Text>
+          )}
+        </View>
+        <Text style={[styles.rowDistance, { color: t.text }]}>
+          {formatDistance(hit.distanceMeters)}
+        </Text>
+      </View>
+      {expanded && (
+        <>
+          <AlertEventFields event={e} textColor={t.text} mutedColor={t.muted} />
+          <IncidentActions event={e} t={t} />
+        </>
+      )}
+    </Pressable>
+  );
+}
+
+/**
+ * Scrollable list of already-ranked hits. Tapping a row expands its details.
+ * `mutedHits` are listed afterwards, dimmed, as "nearby but not on your route".
+ */
+export function HitList({
+  hits,
+  mutedHits = [],
+  t,
+}: {
+  hits: AlertHit[];
+  mutedHits?: AlertHit[];
+  t: AppTheme;
+}) {
+  const { tr } = useI18n();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (!hits.length && !mutedHits.length) {
+    return <Text style={[styles.empty, { color: t.muted }]}>—</Text>;
+  }
+
+  const renderRow = (hit: AlertHit, muted: boolean) => (
+    <HitRow
+      key={hit.event.id}
+      hit={hit}
+      t={t}
+      muted={muted}
+      expanded={expandedId === hit.event.id}
+      onPress={() => setExpandedId((id) => (id === hit.event.id ? null : hit.event.id))}
+    />
+  );
+
+  return (
+    <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+      {hits.map((hit) => renderRow(hit, false))}
+      {mutedHits.length > 0 && (
+        <Text style={[styles.sectionTitle, { color: t.muted }]}>
+          {tr("hits.nearby")}
+        </Text>
+      )}
+      {mutedHits.map((hit) => renderRow(hit, true))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    minWidth: 26,
+    height: 26,
+    borderRadius: 13,
+    paddingHorizontal: 6,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  badgeText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontWeight: "800",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    gap: 8,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+  },
+  muted: {
+    opacity: 0.55,
+  },
+  sectionTitle: {
+    marginTop: 6,
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  rowMain: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "800",
+  },
+  rowSub: {
+    fontSize: 12,
+  },
+  rowStale: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  rowDistance: {
+    fontSize: 15,
+    fontWeight: "800",
+  },
+  empty: {
+    fontSize: 18,
+    fontWeight: "800",
+  },
+});
@@ -0,0 +1,62 @@
+import { Alert, Pressable, StyleSheet, Text, View } from "react-native";
+import { Link } from "expo-router";
+
+import type { AppTheme } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import type { AlertEvent } from "@/types/alerts";
+import { shareIncident } from "@/utils/share";
+
+/**
+ * "Ver detalle" + "Compartir" buttons under an incident. `showDetail` is off
+ * on the detail screen itself.
+ */
+export function IncidentActions({
+  event,
+  t,
+  showDetail = true,
+}: {
+  event: AlertEvent;
+  t: AppTheme;
+  showDetail?: boolean;
+}) {
+  const { tr } = useI18n();
+
+  function share() {
+    shareIncident(event).catch(() => Alert.alert(tr("detail.shareFailed")));
+  }
+
+  return (
+    <View style={styles.actions}>
+      {showDetail && (
+        <Link href={{ pathname: "/incident/[id]", params: { id: event.id } }} asChild>
+          <Pressable style={[styles.ghostBtn, { borderColor: t.border }]}>
+            <Text style={[styles.ghostBtnText, { color: t.text }]}>{tr("detail.open")}</Text>
+          </Pressable>
+        </Link>
+      )}
+      <Pressable onPress={share} style={[styles.ghostBtn, { borderColor: t.border }]}>
+        <Text style={[styles.ghostBtnText, { color: t.text }]}>{tr("detail.share")}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  actions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  ghostBtn: {
+    flex: 1,
+    height: 40,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+  },
+  ghostBtnText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+});
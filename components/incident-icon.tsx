@@ -0,0 +1,29 @@
+import type { ComponentProps } from "react";
+
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import type { AlertEvent } from "@/types/alerts";
+import { categorize, type IncidentCategory } from "@/utils/incident-filter";
+
+type IconName = ComponentProps<typeof IconSymbol>["name"];
+
+export const CATEGORY_ICONS: Record<IncidentCategory, IconName> = {
+  accident: "car.side.rear.and.collision.and.car.side.front",
+  closure: "xmark.octagon.fill",
+  obstacle: "exclamationmark.triangle.fill",
+  weather: "cloud.fog.fill",
+  congestion: "car.2.fill",
+  roadworks: "cone.fill",
+  other: "exclamationmark.bubble.fill",
+};
+
+export function IncidentIcon({
+  event,
+  size,
+  color,
+}: {
+  event: AlertEvent;
+  size: number;
+  color: string;
+}) {
+  return <IconSymbol name={CATEGORY_ICONS[categorize(event)]} size={size} color={color} />;
+}
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import { Pressable, StyleSheet, Text } from "react-native";
+import MapView, { Circle, Marker } from "react-native-maps";
+
+import { severityColor } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import type { AlertHit, Coords } from "@/types/alerts";
+import { formatLocation, incidentLabel } from "@/utils/format";
+
+export type IncidentMapProps = {
+  hits: AlertHit[];
+  /** drawn dimmed: nearby but not on the driver's route */
+  mutedHits?: AlertHit[];
+  position: Coords | null;
+  radiusMeters: number;
+  /** `position` comes from a replayed track: hide the real GPS dot */
+  simulated?: boolean;
+  onSelect: (hit: AlertHit | null) => void;
+};
+
+// ~radio de 2 km con margen
+const INITIAL_DELTA = 0.05;
+
+export function IncidentMap({
+  hits,
+  mutedHits = [],
+  position,
+  radiusMeters,
+  simulated = false,
+  onSelect,
+}: IncidentMapProps) {
+  const mapRef = useRef<MapView>(null);
+  const { tr } = useI18n();
+  // el zoom solo se fija con la primera posición; luego lo decide el conductor
+  const centeredRef = useRef(!!position);
+  // seguimos la posición hasta que el conductor arrastra el mapa
+  const [following, setFollowing] = useState(true);
+
+  useEffect(() => {
+    if (!position) return;
+    if (!centeredRef.current) {
+      centeredRef.current = true;
+      mapRef.current?.animateToRegion({
+        ...position,
+        latitudeDelta: INITIAL_DELTA,
+        longitudeDelta: INITIAL_DELTA,
+      });
+    } else if (following) {
+      mapRef.current?.animateCamera({ center: position });
+    }
+  }, [position, following]);
+
+  return (
+    <>
+      <MapView
+        ref={mapRef}
+        style={StyleSheet.absoluteFill}
+        showsUserLocation={!simulated}
+        onPanDrag={() => setFollowing(false)}
+        initialRegion={
+          position
+            ? { ...position, latitudeDelta: INITIAL_DELTA, longitudeDelta: INITIAL_DELTA }
+            : undefined
+        }
+        onPress={() => onSelect(null)}
+      >
+        {position && (
+          <Circle
+            center={position}
+            radius={radiusMeters}
+            strokeColor="rgba(37, 99, 235, 0.6)"
+            fillColor="rgba(37, 99, 235, 0.08)"
+          />
+        )}
+
+        {simulated && position && (
+          <Marker coordinate={position} pinColor="#9333EA" title={tr("simulate.position")} />
+        )}
+
+        {[...hits, ...mutedHits].map((hit) => (
+          <Marker
+            key={hit.event.id}
+            coordinate={{ latitude: hit.event.lat, longitude: hit.event.lon }}
+            pinColor={severityColor(hit.event.severity)}
+            opacity={mutedHits.includes(hit) ? 0.5 : 1}
+            title={incidentLabel(hit.event)}
+            description={formatLocation(hit.event)}
+            onPress={(ev) => {
+              ev.stopPropagation();
+              onSelect(hit);
+            }}
+          />
+        ))}
+      </MapView>
+      {!following && position && (
+        <Pressable
+          onPress={() => setFollowing(true)}
+          style={({ pressed }) => [styles.followBtn, pressed && { opacity: 0.85 }]}
+        >
+          <Text style={styles.followText}>{tr("map.follow")}</Text>
+        </Pressable>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  followBtn: {
+    position: "absolute",
+    top: 96,
+    right: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: "#2563EB",
+  },
+  followText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "800",
+  },
+});
@@ -0,0 +1,31 @@
+import { StyleSheet, Text, View } from "react-native";
+
+import { useI18n } from "@/hooks/use-i18n";
+
+import type { IncidentMapProps } from "./incident-map";
+
+// react-native-maps no tiene soporte web: mostramos un aviso en su lugar.
+export function IncidentMap({ hits, mutedHits = [] }: IncidentMapProps) {
+  const { tr } = useI18n();
+  return (
+    <View style={styles.container}>
+      <Text style={styles.text}>
+        {tr("map.webIncidents", { count: hits.length + mutedHits.length })}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  text: {
+    fontSize: 14,
+    textAlign: "center",
+    color: "#5E6B78",
+  },
+});
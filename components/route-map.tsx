@@ -0,0 +1,58 @@
+import { useEffect, useRef } from "react";
+import { StyleSheet } from "react-native";
+import MapView, { Marker, Polyline } from "react-native-maps";
+
+import { severityColor } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import type { Coords, PlannedIncident } from "@/types/alerts";
+import { formatLocation, incidentLabel } from "@/utils/format";
+
+export type RouteMapProps = {
+  polyline?: Coords[];
+  origin?: Coords;
+  destination?: Coords;
+  incidents: PlannedIncident[];
+  /** long-press on the map picks a point */
+  onPick?: (coords: Coords) => void;
+};
+
+const EDGE_PADDING = { top: 40, right: 40, bottom: 40, left: 40 };
+
+export function RouteMap({ polyline, origin, destination, incidents, onPick }: RouteMapProps) {
+  const mapRef = useRef<MapView>(null);
+  const { tr } = useI18n();
+
+  useEffect(() => {
+    const points = [
+      ...(polyline ?? []),
+      ...[origin, destination].filter((p): p is Coords => !!p),
+    ];
+    if (points.length) {
+      mapRef.current?.fitToCoordinates(points, { edgePadding: EDGE_PADDING, animated: true });
+    }
+  }, [polyline, origin, destination]);
+
+  return (
+    <MapView
+      ref={mapRef}
+      style={StyleSheet.absoluteFill}
+      showsUserLocation
+      onLongPress={(ev) => onPick?.(ev.nativeEvent.coordinate)}
+    >
+      {polyline && <Polyline coordinates={polyline} strokeColor="#2563EB" strokeWidth={4} />}
+      {origin && <Marker coordinate={origin} pinColor="#16A34A" title={tr("common.origin")} />}
+      {destination && (
+        <Marker coordinate={destination} pinColor="#0B1220" title={tr("common.destination")} />
+      )}
+      {incidents.map(({ event }) => (
+        <Marker
+          key={event.id}
+          coordinate={{ latitude: event.lat, longitude: event.lon }}
+          pinColor={severityColor(event.severity)}
+          title={incidentLabel(event)}
+          description={formatLocation(event)}
+        />
+      ))}
+    </MapView>
+  );
+}
@@ -0,0 +1,32 @@
+import { StyleSheet, Text, View } from "react-native";
+
+import { useI18n } from "@/hooks/use-i18n";
+
+import type { RouteMapProps } from "./route-map";
+
+// react-native-maps no tiene soporte web: mostramos un aviso en su lugar.
+export function RouteMap({ polyline }: RouteMapProps) {
+  const { tr } = useI18n();
+  return (
+    <View style={styles.container}>
+      <Text style={styles.text}>
+        {tr("map.webUnavailable")}
+        {polyline ? tr("map.webRoute", { count: polyline.length }) : ""}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  text: {
+    fontSize: 14,
+    textAlign: "center",
+    color: "#5E6B78",
+  },
+});
@@ -0,0 +1,50 @@
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import type { AppTheme } from "@/constants/theme";
+
+export type SegmentedOption<T extends string> = { key: T; label: string };
+
+export function SegmentedToggle<T extends string>({
+  options,
+  value,
+  onChange,
+  t,
+}: {
+  options: SegmentedOption<T>[];
+  value: T;
+  onChange: (value: T) => void;
+  t: AppTheme;
+}) {
+  return (
+    <View style={[styles.toggle, { borderColor: t.border }]}>
+      {options.map((o) => (
+        <Pressable
+          key={o.key}
+          onPress={() => onChange(o.key)}
+          style={[styles.toggleItem, value === o.key && { backgroundColor: t.pillBg }]}
+        >
+          <Text style={[styles.toggleText, { color: value === o.key ? t.text : t.muted }]}>
+            {o.label}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toggle: {
+    flexDirection: "row",
+    borderWidth: 1,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  toggleItem: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  toggleText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+});
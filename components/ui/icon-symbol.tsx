@@ -18,6 +18,20 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'map.fill': 'map',
+  'gearshape.fill': 'settings',
+  'arrow.triangle.turn.up.right.diamond.fill': 'directions',
+  'road.lanes': 'edit-road',
+  'clock.fill': 'history',
+  'car.side.rear.and.collision.and.car.side.front': 'car-crash',
+  'xmark.octagon.fill': 'block',
+  'exclamationmark.triangle.fill': 'warning',
+  'cloud.fog.fill': 'foggy',
+  'car.2.fill': 'traffic',
+  'cone.fill': 'construction',
+  'exclamationmark.bubble.fill': 'report',
+  'pawprint.fill': 'pets',
+  'info.circle.fill': 'info',
 } as IconMapping;
 
 /**
@@ -0,0 +1,37 @@
+import * as Device from "expo-device";
+import { Platform } from "react-native";
+
+function getBackendBaseUrl() {
+  const envUrl = process.env.EXPO_PUBLIC_API_URL;
+  if (envUrl) return envUrl;
+
+  if (Platform.OS === "web") {
+    return "http://localhost:8080/api";
+  }
+
+  if (Platform.OS === "android" && !Device.isDevice) {
+    return "http://10.0.2.2:8080/api";
+  }
+
+  if (Platform.OS === "ios" && !Device.isDevice) {
+    return "http://localhost:8080/api";
+  }
+
+  // móvil físico: IP de tu PC en la misma WiFi
+  return "http://192.168.1.40:8080/api";
+}
+
+// Valores por defecto: el usuario puede cambiarlos en Ajustes.
+export const DEFAULT_BACKEND_URL = getBackendBaseUrl();
+
+export const DEFAULT_RADIUS_METERS = 2000;
+export const DEFAULT_POLL_INTERVAL_MS = 30000;
+
+// Servidor de rutas compatible con OSRM para planificar viajes.
+export const ROUTING_URL =
+  process.env.EXPO_PUBLIC_ROUTING_URL ?? "https://router.project-osrm.org";
+
+// Publicación de situaciones DATEX II de la DGT: respaldo si el backend no responde.
+export const DATEX2_URL =
+  process.env.EXPO_PUBLIC_DATEX2_URL ??
+  "https://infocar.dgt.es/datex2/dgt/SituationPublication/all/content.xml";
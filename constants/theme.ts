@@ -51,3 +51,56 @@ export const Fonts = Platform.select({
     mono: "SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', 'Courier New', monospace",
   },
 });
+
+/**
+ * Palette used by the TrafficAlert screens (home card, map, etc.).
+ */
+export function getAppTheme(isDark: boolean) {
+  if (isDark) {
+    return {
+      bg: '#0B0F14',
+      card: '#121823',
+      text: '#EAF0F6',
+      muted: '#9AA7B2',
+      border: '#223044',
+      pillBg: '#162233',
+      primary: '#4F8CFF',
+      primaryText: '#071018',
+      dangerBg: '#2A1114',
+      dangerBorder: '#5B1E25',
+      dangerText: '#FFB4BD',
+      simBg: '#1F1030',
+      simBorder: '#4C1D95',
+      simText: '#D8B4FE',
+    };
+  }
+  return {
+    bg: '#F4F6F9',
+    card: '#FFFFFF',
+    text: '#0B1220',
+    muted: '#5E6B78',
+    border: '#E2E8F0',
+    pillBg: '#EEF4FF',
+    primary: '#2563EB',
+    primaryText: '#FFFFFF',
+    dangerBg: '#FFECEF',
+    dangerBorder: '#FFC7D0',
+    dangerText: '#B4232C',
+    simBg: '#F3E8FF',
+    simBorder: '#D8B4FE',
+    simText: '#6B21A8',
+  };
+}
+
+export type AppTheme = ReturnType<typeof getAppTheme>;
+
+/**
+ * Marker / badge color for an incident severity (DGT scale, higher is worse).
+ */
+export function severityColor(severity?: number) {
+  if (severity === undefined) return '#64748B';
+  if (severity >= 4) return '#DC2626';
+  if (severity >= 3) return '#F97316';
+  if (severity >= 2) return '#EAB308';
+  return '#2563EB';
+}
@@ -0,0 +1,747 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type PropsWithChildren,
+} from "react";
+import { Alert, AppState, Vibration } from "react-native";
+import * as Location from "expo-location";
+import { Audio, InterruptionModeAndroid, InterruptionModeIOS } from "expo-av";
+import * as Speech from "expo-speech";
+
+import { getAlerts, postFeedback, type AlertsQuery } from "@/api/alerts";
+import { getDatex2Alerts } from "@/api/datex2";
+import { ApiError, describeApiError } from "@/api/errors";
+import { isFixtureBackend } from "@/api/fixture-backend";
+import { connectAlertStream, type AlertStream, type StreamMessage } from "@/api/stream";
+import { useReports } from "@/hooks/use-reports";
+import { useSettings } from "@/hooks/use-settings";
+import { getLocale, LANGUAGE_TAGS, tr } from "@/i18n";
+import { useTrip } from "@/hooks/use-trip";
+import { startBackgroundDriving, stopBackgroundDriving } from "@/tasks/driving-location";
+import type { AlertEvent, AlertHit, Coords } from "@/types/alerts";
+import { planPolling, type PollingPlan } from "@/utils/adaptive-polling";
+import { cueForHits, type AlertCue } from "@/utils/alert-cues";
+import { trackAlerts, type AlertMemory } from "@/utils/alert-tracker";
+import {
+  hitsFromCache,
+  loadIncidentCache,
+  mergeIntoCache,
+  saveIncidentCache,
+  type IncidentCache,
+} from "@/utils/incident-cache";
+import { incidentLabel } from "@/utils/format";
+import { guessCurrentRoad } from "@/utils/location";
+import { hitsAround, withLiveDistances } from "@/utils/hits";
+import { passingHit } from "@/utils/incident-feedback";
+import { filterHits } from "@/utils/incident-filter";
+import { classifyHits, isBehind, type Motion } from "@/utils/route-filter";
+import { tripRouteCheck } from "@/utils/route-plan";
+import { buildAnnouncement } from "@/utils/speech";
+import { startReplay, type ReplayTrack, type TrackReplay } from "@/utils/track-replay";
+import {
+  archiveTrip,
+  recordHits,
+  recordPosition,
+  startTripLog,
+  type TripLog,
+} from "@/utils/trip-history";
+
+/**
+ * What the driving loop is doing, kept untranslated so that it follows a
+ * language change; render it with `describeStatus`.
+ */
+export type DrivingStatus =
+  | "ready"
+  | "locating"
+  | "querying"
+  | "noneNearby"
+  | "noneOnRoute"
+  | "alert"
+  | "driving"
+  | "stopped"
+  | { error: unknown };
+
+/** `status` as a line for the UI, in the active language. */
+export function describeStatus(status: DrivingStatus) {
+  return typeof status === "string" ? tr(`status.${status}`) : describeApiError(status.error);
+}
+
+/** Developer replay of a recorded track in place of the GPS. */
+export type Simulation = {
+  name: string;
+  speedFactor: number;
+  /** 0…1 */
+  progress: number;
+};
+
+type DrivingState = {
+  driving: boolean;
+  /** background location task running (keeps alerting with the screen off) */
+  background: boolean;
+  status: DrivingStatus;
+  busy: boolean;
+  /** last poll couldn't reach the backend: hits come from the offline cache */
+  offline: boolean;
+  /** last poll couldn't reach the backend: hits come straight from the DGT DATEX II feed */
+  fallback: boolean;
+  /** receiving incidents through the real-time stream instead of polling */
+  live: boolean;
+  /**
+   * hits ahead of the car, in its direction and road; distances follow the
+   * GPS every second between queries
+   */
+  hits: AlertHit[];
+  /** hits within the radius but not on the driver's route */
+  nearbyHits: AlertHit[];
+  /** incident being passed right now, waiting for the "¿Sigue ahí?" answer */
+  feedbackPrompt: AlertHit | null;
+  position: Coords | null;
+  /** set while positions come from a replayed track instead of the GPS */
+  simulation: Simulation | null;
+  /** current query radius, adapted to speed while driving */
+  radiusMeters: number;
+  /** current delay between polls, adapted to speed while driving */
+  pollIntervalMs: number;
+  tick: () => Promise<PollingPlan>;
+  /** answers the "¿Sigue ahí?" prompt; `null` dismisses it without answering */
+  answerFeedback: (stillThere: boolean | null) => void;
+  /** current fix: the replayed track while simulating, else the GPS */
+  locate: () => Promise<Location.LocationObject>;
+  startDriving: () => void;
+  stopDriving: () => void;
+  /** starts driving with `track` replayed at `speedFactor` × real time */
+  startSimulation: (track: ReplayTrack, speedFactor: number) => void;
+};
+
+/** Last position used for a query, and the radius it was queried with. */
+type Fix = { motion: Motion; radiusMeters: number };
+
+const DrivingContext = createContext<DrivingState | null>(null);
+
+// Como mucho leemos dos incidencias por consulta para no saturar al conductor.
+const MAX_SPOKEN_PER_TICK = 2;
+// Pausa entre pitidos repetidos de una misma alerta.
+const BEEP_GAP_MS = 350;
+
+// Reintentos del stream en tiempo real: 5 s, 10 s, 20 s… hasta 1 min.
+const STREAM_RETRY_MS = 5000;
+const STREAM_MAX_RETRY_MS = 60000;
+
+// Sin respuesta, la pregunta de "¿Sigue ahí?" se retira sola.
+const FEEDBACK_TIMEOUT_MS = 20000;
+
+/**
+ * Owns the driving loop (location + /alerts polling + beep) so that every tab
+ * renders the same hits. With real-time enabled in settings, incidents also
+ * arrive through a WebSocket; polling takes over whenever it drops.
+ */
+export function DrivingProvider({ children }: PropsWithChildren) {
+  const settings = useSettings();
+  // tick() corre desde un setTimeout: leemos los ajustes vigentes a través de un ref
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  const { trip } = useTrip();
+  const tripRef = useRef(trip);
+  useEffect(() => {
+    tripRef.current = trip;
+  }, [trip]);
+
+  const { reports } = useReports();
+  const reportsRef = useRef(reports);
+  useEffect(() => {
+    reportsRef.current = reports;
+  }, [reports]);
+
+  const [driving, setDriving] = useState(false);
+  const [background, setBackground] = useState(false);
+  const [status, setStatus] = useState<DrivingStatus>("ready");
+  const [busy, setBusy] = useState(false);
+  const [offline, setOffline] = useState(false);
+  const [fallback, setFallback] = useState(false);
+
+  const [hits, setHits] = useState<AlertHit[]>([]);
+  const [nearbyHits, setNearbyHits] = useState<AlertHit[]>([]);
+  const [position, setPosition] = useState<Coords | null>(null);
+  const [plan, setPlan] = useState<PollingPlan | null>(null);
+
+  const drivingRef = useRef(false);
+  // fuera de la app, con la tarea de segundo plano en marcha, avisa solo ella
+  const pausedRef = useRef(false);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const announcedRef = useRef<AlertMemory>(new Map());
+  const cacheRef = useRef<IncidentCache>({});
+  const lastFixRef = useRef<Fix | null>(null);
+  // hits vigentes, para reclasificarlos desde watchPositionAsync
+  const hitsRef = useRef<AlertHit[]>([]);
+  const nearbyRef = useRef<AlertHit[]>([]);
+  const watchRef = useRef<Location.LocationSubscription | null>(null);
+  // traza simulada: sustituye al GPS en tick() y en el seguimiento continuo
+  const replayRef = useRef<TrackReplay | null>(null);
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+  // sesión en curso, se guarda en el historial al detener
+  const tripLogRef = useRef<TripLog | null>(null);
+
+  const [feedbackPrompt, setFeedbackPrompt] = useState<AlertHit | null>(null);
+  const feedbackRef = useRef<AlertHit | null>(null);
+  const feedbackTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // incidencias ya preguntadas en esta sesión
+  const askedRef = useRef<Set<string>>(new Set());
+
+  const [live, setLive] = useState(false);
+  const streamRef = useRef<AlertStream | null>(null);
+  const streamEventsRef = useRef<Map<string, AlertEvent>>(new Map());
+  // zona que cubre la última instantánea recibida, y suscripciones aún sin ella
+  const streamAreaRef = useRef<AlertsQuery | null>(null);
+  const streamPendingRef = useRef<AlertsQuery[]>([]);
+  const streamTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const streamRetryRef = useRef(0);
+
+  useEffect(() => {
+    loadIncidentCache().then((cache) => {
+      cacheRef.current = cache;
+    });
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      const perm = await Location.requestForegroundPermissionsAsync();
+      if (perm.status !== "granted") {
+        Alert.alert(tr("permission.title"), tr("permission.location"));
+      }
+      // bajamos el volumen de otras apps (música, navegador) mientras avisamos
+      await Audio.setAudioModeAsync({
+        playsInSilentModeIOS: true,
+        interruptionModeIOS: InterruptionModeIOS.DuckOthers,
+        interruptionModeAndroid: InterruptionModeAndroid.DuckOthers,
+        shouldDuckAndroid: true,
+      });
+    })();
+
+    return stopDriving;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function beep(cue: AlertCue) {
+    try {
+      if (!soundRef.current) {
+        const { sound } = await Audio.Sound.createAsync(
+          require("../assets/beep.mp3")
+        );
+        soundRef.current = sound;
+      }
+      // sin corregir el tono: más rápido suena más agudo
+      await soundRef.current.setRateAsync(cue.rate, false);
+      for (let i = 0; i < cue.repeats; i++) {
+        if (i > 0) await new Promise((resolve) => setTimeout(resolve, BEEP_GAP_MS));
+        await soundRef.current.replayAsync();
+      }
+    } catch {
+      // MVP: si falla el sonido, seguimos
+    }
+  }
+
+  function speak(announce: AlertHit[]) {
+    for (const hit of announce.slice(0, MAX_SPOKEN_PER_TICK)) {
+      Speech.speak(buildAnnouncement(hit), { language: LANGUAGE_TAGS[getLocale()] });
+    }
+  }
+
+  async function announceHits(announce: AlertHit[]) {
+    const { alertMode, vibration } = settingsRef.current;
+    const cue = cueForHits(announce);
+    if (vibration) Vibration.vibrate(cue.vibration);
+    if (alertMode !== "voice") await beep(cue);
+    if (alertMode !== "beep") speak(announce);
+  }
+
+  function ownReportIds() {
+    return new Set(reportsRef.current.map((r) => r.event.id));
+  }
+
+  // Lo que acaba de avisar el propio conductor se lista, pero no se le anuncia.
+  // Lo que sale de la ruta sin haber quedado atrás (rumbo en curva) no se olvida.
+  function trackAnnouncements(onRoute: AlertHit[], nearby: AlertHit[], motion: Motion) {
+    const own = ownReportIds();
+    const { memory, announce } = trackAlerts(
+      announcedRef.current,
+      onRoute.filter((hit) => !own.has(hit.event.id)),
+      settingsRef.current.alertThresholds,
+      nearby.filter((hit) => !isBehind(hit, motion))
+    );
+    announcedRef.current = memory;
+    return announce;
+  }
+
+  /**
+   * Asks "¿Sigue ahí?" about the incident being passed, once per incident
+   * and one at a time; the driver's own reports are never asked about, and
+   * nothing is asked during a simulated drive (it would be fake feedback).
+   */
+  function askFeedback(onRoute: AlertHit[]) {
+    if (feedbackRef.current || replayRef.current) return;
+    const own = ownReportIds();
+    const hit = passingHit(onRoute.filter((h) => !own.has(h.event.id)), askedRef.current);
+    if (!hit) return;
+    askedRef.current.add(hit.event.id);
+    feedbackRef.current = hit;
+    setFeedbackPrompt(hit);
+    if (settingsRef.current.alertMode !== "beep") {
+      Speech.speak(tr("feedback.spoken", { what: incidentLabel(hit.event) }), {
+        language: LANGUAGE_TAGS[getLocale()],
+      });
+    }
+    feedbackTimerRef.current = setTimeout(() => answerFeedback(null), FEEDBACK_TIMEOUT_MS);
+  }
+
+  function closeFeedback() {
+    if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+    feedbackTimerRef.current = null;
+    feedbackRef.current = null;
+    setFeedbackPrompt(null);
+  }
+
+  /** Swaps in a newer copy of an event (e.g. with updated feedback counts). */
+  function updateEvent(event: AlertEvent) {
+    const swap = (list: AlertHit[]) =>
+      list.map((hit) => (hit.event.id === event.id ? { ...hit, event } : hit));
+    showHits(swap(hitsRef.current), swap(nearbyRef.current));
+    if (streamEventsRef.current.has(event.id)) streamEventsRef.current.set(event.id, event);
+  }
+
+  function answerFeedback(stillThere: boolean | null) {
+    const hit = feedbackRef.current;
+    closeFeedback();
+    if (!hit || stillThere === null || replayRef.current) return;
+    postFeedback(hit.event.id, stillThere, { baseUrl: settingsRef.current.backendUrl })
+      .then(updateEvent)
+      .catch(() => {
+        // best-effort: sin conexión la respuesta se pierde
+      });
+  }
+
+  function showHits(onRoute: AlertHit[], nearby: AlertHit[]) {
+    hitsRef.current = onRoute;
+    nearbyRef.current = nearby;
+    setHits(onRoute);
+    setNearbyHits(nearby);
+  }
+
+  /**
+   * Classifies, stores and announces a fresh set of hits for a fix. Hits
+   * that belong to the planned trip are judged by their position along the
+   * route; the trip's own snapshot is never added back, since the source
+   * already answered for that whole circle (what it didn't return is
+   * cleared). The driver's own reports are added, still queued or not.
+   */
+  async function processHits(result: AlertHit[], fix: Fix, offlineError: ApiError | null) {
+    setOffline(!!offlineError);
+
+    const { motion, radiusMeters } = fix;
+    const own = reportsRef.current.map((r) => r.event);
+    if (own.length) {
+      const ids = new Set(own.map((e) => e.id));
+      const others = result.filter((h) => !ids.has(h.event.id));
+      result = [...others, ...hitsAround(own, motion, radiusMeters)];
+    }
+    const trip = tripRef.current;
+
+    const filters = settingsRef.current.filters;
+    const classified = classifyHits(result, motion, tripRouteCheck(trip, motion));
+    const onRoute = filterHits(classified.onRoute, filters);
+    const nearby = filterHits(classified.nearby, filters);
+    showHits(onRoute, nearby);
+    if (tripLogRef.current) {
+      const { latitude, longitude } = motion;
+      tripLogRef.current = recordHits(tripLogRef.current, onRoute, { latitude, longitude });
+    }
+
+    const announce = trackAnnouncements(onRoute, nearby, motion);
+    askFeedback(onRoute);
+
+    if (offlineError && !onRoute.length) {
+      setStatus({ error: offlineError });
+    } else if (!result.length) {
+      setStatus("noneNearby");
+    } else if (!onRoute.length) {
+      setStatus("noneOnRoute");
+    } else {
+      setStatus("alert");
+      if (announce.length) await announceHits(announce);
+    }
+  }
+
+  function subscribeStream(stream: AlertStream, query: AlertsQuery) {
+    if (!stream.isOpen()) return;
+    stream.subscribe(query);
+    streamPendingRef.current.push(query);
+  }
+
+  /**
+   * Hits around `coords`: from the live stream once it has sent a snapshot,
+   * else from `/alerts`, else from the DGT DATEX II feed, else (offline) from
+   * the cache.
+   */
+  async function fetchHits(coords: Coords, radiusMeters: number) {
+    const query = { lat: coords.latitude, lon: coords.longitude, radiusMeters };
+    const stream = streamRef.current;
+    const area = stream?.isOpen() ? streamAreaRef.current : null;
+    if (stream) subscribeStream(stream, query);
+
+    if (area) {
+      const events = [...streamEventsRef.current.values()];
+      // hasta la instantánea nueva el stream solo responde por la zona anterior
+      const center = { latitude: area.lat, longitude: area.lon };
+      const known = hitsAround(events, center, area.radiusMeters);
+      cacheRef.current = mergeIntoCache(
+        cacheRef.current,
+        { ...center, radiusMeters: area.radiusMeters },
+        known
+      );
+      saveIncidentCache(cacheRef.current);
+      setFallback(false);
+      return { result: hitsAround(events, coords, radiusMeters), offlineError: null };
+    }
+
+    let result: AlertHit[];
+    try {
+      result = await getAlerts(query, { baseUrl: settingsRef.current.backendUrl });
+      setFallback(false);
+    } catch (e) {
+      if (!(e instanceof ApiError)) throw e;
+      try {
+        // el backend republica el feed de la DGT: sin él, lo leemos nosotros
+        result = await getDatex2Alerts(query);
+        setFallback(true);
+      } catch (datexError) {
+        if (!(datexError instanceof ApiError)) throw datexError;
+        setFallback(false);
+        // Sin backend seguimos con lo último conocido, recalculando distancias.
+        return { result: hitsFromCache(cacheRef.current, coords, radiusMeters), offlineError: e };
+      }
+    }
+    cacheRef.current = mergeIntoCache(cacheRef.current, { ...coords, radiusMeters }, result);
+    saveIncidentCache(cacheRef.current);
+    return { result, offlineError: null };
+  }
+
+  async function locate() {
+    if (replayRef.current) return replayRef.current.current();
+    return Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+  }
+
+  /**
+   * One poll: locate, get hits and announce. Resolves to the plan for the
+   * next poll (interval + radius adapted to the current speed).
+   */
+  async function tick(): Promise<PollingPlan> {
+    const { radiusMeters, pollIntervalMs } = settingsRef.current;
+    let next: PollingPlan = { intervalMs: pollIntervalMs, radiusMeters };
+
+    setBusy(true);
+    try {
+      setStatus("locating");
+      const pos = await locate();
+
+      const { latitude, longitude, heading, speed } = pos.coords;
+      setPosition({ latitude, longitude });
+      if (tripLogRef.current) {
+        tripLogRef.current = recordPosition(tripLogRef.current, { latitude, longitude });
+      }
+
+      next = planPolling(speed, next);
+      setPlan(next);
+
+      setStatus("querying");
+      const { result, offlineError } = await fetchHits({ latitude, longitude }, next.radiusMeters);
+
+      const road = result.length ? await guessCurrentRoad({ latitude, longitude }) : null;
+      const motion = { latitude, longitude, heading, speed, road };
+      const fix = { motion, radiusMeters: next.radiusMeters };
+      lastFixRef.current = fix;
+      await processHits(result, fix, offlineError);
+    } catch (e) {
+      setStatus({ error: e });
+    } finally {
+      setBusy(false);
+    }
+    return next;
+  }
+
+  /**
+   * Continuous GPS between queries: recomputes the distance to the known hits,
+   * splits them again with the live heading (an incident just passed drops
+   * to nearby) and announces the ones that just crossed a closer threshold.
+   */
+  function handleLiveFix({ coords }: Location.LocationObject) {
+    if (!drivingRef.current) return;
+    const here = { latitude: coords.latitude, longitude: coords.longitude };
+    setPosition(here);
+
+    if (tripLogRef.current) {
+      tripLogRef.current = recordPosition(tripLogRef.current, here);
+    }
+
+    // sin una consulta hecha todavía no hay hits que mover
+    const fix = lastFixRef.current;
+    if (!fix) return;
+    const motion = { ...fix.motion, ...here, heading: coords.heading, speed: coords.speed };
+    lastFixRef.current = { ...fix, motion };
+    const known = withLiveDistances([...hitsRef.current, ...nearbyRef.current], here);
+    const routeCheck = tripRouteCheck(tripRef.current, motion);
+    const { onRoute, nearby } = classifyHits(known, motion, routeCheck);
+    showHits(onRoute, nearby);
+    if (tripLogRef.current) tripLogRef.current = recordHits(tripLogRef.current, onRoute, here);
+
+    const announce = trackAnnouncements(onRoute, nearby, motion);
+    if (announce.length) announceHits(announce);
+    askFeedback(onRoute);
+  }
+
+  function handleReplayFix(fix: Location.LocationObject) {
+    const replay = replayRef.current;
+    if (replay) setSimulation((s) => s && { ...s, progress: replay.progress() });
+    handleLiveFix(fix);
+  }
+
+  async function startWatching() {
+    // la simulación ya emite una posición por segundo
+    if (replayRef.current) return;
+    try {
+      const sub = await Location.watchPositionAsync(
+        { accuracy: Location.Accuracy.High, timeInterval: 1000, distanceInterval: 0 },
+        handleLiveFix
+      );
+      // stopDriving() o pause() pudieron llegar mientras esperábamos
+      if (drivingRef.current && !pausedRef.current && !watchRef.current) watchRef.current = sub;
+      else sub.remove();
+    } catch {
+      // sin seguimiento continuo la distancia se actualiza en cada consulta
+    }
+  }
+
+  function stopWatching() {
+    watchRef.current?.remove();
+    watchRef.current = null;
+  }
+
+  function handleStreamMessage(msg: StreamMessage) {
+    const events = streamEventsRef.current;
+    if (msg.type === "snapshot") {
+      events.clear();
+      for (const event of msg.events) events.set(event.id, event);
+      // llegan en el orden en que nos suscribimos
+      streamAreaRef.current = streamPendingRef.current.shift() ?? streamAreaRef.current;
+    } else if (msg.type === "incident.cleared") {
+      events.delete(msg.id);
+    } else {
+      events.set(msg.event.id, msg.event);
+    }
+
+    // Avisamos ya, con la última posición conocida, sin esperar a la consulta.
+    const fix = lastFixRef.current;
+    if (!fix) return;
+    processHits(hitsAround(events.values(), fix.motion, fix.radiusMeters), fix, null);
+  }
+
+  function resetStreamEvents() {
+    streamEventsRef.current = new Map();
+    streamAreaRef.current = null;
+    streamPendingRef.current = [];
+  }
+
+  function openStream() {
+    const { streaming, backendUrl } = settingsRef.current;
+    // los datos de demostración no tienen tiempo real: basta con las consultas
+    if (!streaming || isFixtureBackend(backendUrl)) return;
+    if (!drivingRef.current || pausedRef.current || streamRef.current) return;
+
+    const stream = connectAlertStream(backendUrl, {
+      onOpen: () => {
+        streamRetryRef.current = 0;
+        setLive(true);
+        const fix = lastFixRef.current;
+        if (fix) {
+          subscribeStream(stream, {
+            lat: fix.motion.latitude,
+            lon: fix.motion.longitude,
+            radiusMeters: fix.radiusMeters,
+          });
+        }
+      },
+      onMessage: handleStreamMessage,
+      onClose: () => {
+        // cerrado a propósito desde closeStream()
+        if (streamRef.current !== stream) return;
+        streamRef.current = null;
+        resetStreamEvents();
+        setLive(false);
+        if (!drivingRef.current) return;
+        // mientras tanto el bucle de tick() vuelve a consultar /alerts
+        const delay = Math.min(STREAM_RETRY_MS * 2 ** streamRetryRef.current, STREAM_MAX_RETRY_MS);
+        streamRetryRef.current++;
+        streamTimerRef.current = setTimeout(openStream, delay);
+      },
+    });
+    streamRef.current = stream;
+  }
+
+  function closeStream() {
+    if (streamTimerRef.current) clearTimeout(streamTimerRef.current);
+    streamTimerRef.current = null;
+    streamRetryRef.current = 0;
+    const stream = streamRef.current;
+    streamRef.current = null;
+    stream?.close();
+    resetStreamEvents();
+    setLive(false);
+  }
+
+  // Activar / desactivar el tiempo real en Ajustes mientras conducimos.
+  useEffect(() => {
+    if (!drivingRef.current) return;
+    if (settings.streaming) openStream();
+    else closeStream();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings.streaming]);
+
+  async function loop() {
+    const next = await tick();
+    if (!drivingRef.current || pausedRef.current) return;
+    // a velocidad acelerada consultamos más a menudo, como haría el coche real
+    timerRef.current = setTimeout(loop, next.intervalMs / (replayRef.current?.speedFactor ?? 1));
+  }
+
+  /**
+   * Hands alerting over to the background task while the app isn't in the
+   * foreground: the polling loop, the live GPS and the stream stop, so an
+   * incident isn't announced here and notified by the task as well.
+   */
+  function pause() {
+    if (pausedRef.current || !drivingRef.current) return;
+    pausedRef.current = true;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    stopWatching();
+    closeStream();
+  }
+
+  function resume() {
+    if (!pausedRef.current) return;
+    pausedRef.current = false;
+    if (!drivingRef.current) return;
+    loop();
+    startWatching();
+    openStream();
+  }
+
+  useEffect(() => {
+    if (!background) return;
+    const sub = AppState.addEventListener("change", (state) =>
+      state === "active" ? resume() : pause()
+    );
+    return () => {
+      sub.remove();
+      resume();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [background]);
+
+  function startDriving() {
+    drivingRef.current = true;
+    // los viajes simulados no van al historial ni al segundo plano (usa el GPS real)
+    const simulated = !!replayRef.current;
+    tripLogRef.current = simulated ? null : startTripLog();
+    setDriving(true);
+    setStatus("driving");
+    loop();
+    startWatching();
+    openStream();
+    if (simulated) return;
+    startBackgroundDriving(settings.pollIntervalMs)
+      .catch(() => false)
+      .then((started) => {
+        // stopDriving() pudo llegar durante el permiso o el arranque de la tarea
+        if (started && !drivingRef.current) {
+          stopBackgroundDriving().catch(() => {});
+          return;
+        }
+        setBackground(started);
+      });
+  }
+
+  function startSimulation(track: ReplayTrack, speedFactor: number) {
+    if (drivingRef.current) stopDriving();
+    replayRef.current = startReplay(track, speedFactor, handleReplayFix, stopDriving);
+    setSimulation({ name: track.name, speedFactor, progress: 0 });
+    startDriving();
+  }
+
+  function stopDriving() {
+    drivingRef.current = false;
+    pausedRef.current = false;
+    setDriving(false);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    closeStream();
+    stopWatching();
+    replayRef.current?.stop();
+    replayRef.current = null;
+    setSimulation(null);
+    lastFixRef.current = null;
+    if (tripLogRef.current) archiveTrip({ ...tripLogRef.current, endedAt: Date.now() });
+    tripLogRef.current = null;
+    setPlan(null);
+    setOffline(false);
+    setFallback(false);
+    announcedRef.current = new Map();
+    closeFeedback();
+    askedRef.current = new Set();
+    Speech.stop();
+    stopBackgroundDriving().catch(() => {});
+    setBackground(false);
+    setBusy(false);
+    setStatus("stopped");
+  }
+
+  return (
+    <DrivingContext.Provider
+      value={{
+        driving,
+        background,
+        status,
+        busy,
+        offline,
+        fallback,
+        live,
+        hits,
+        nearbyHits,
+        feedbackPrompt,
+        position,
+        simulation,
+        radiusMeters: plan?.radiusMeters ?? settings.radiusMeters,
+        pollIntervalMs: plan?.intervalMs ?? settings.pollIntervalMs,
+        tick,
+        answerFeedback,
+        locate,
+        startDriving,
+        stopDriving,
+        startSimulation,
+      }}
+    >
+      {children}
+    </DrivingContext.Provider>
+  );
+}
+
+export function useDriving() {
+  const ctx = useContext(DrivingContext);
+  if (!ctx) throw new Error("useDriving must be used inside <DrivingProvider>");
+  return ctx;
+}
@@ -0,0 +1,16 @@
+import { resolveLocale, translate, type MessageKey } from "@/i18n";
+import { useSettings } from "@/hooks/use-settings";
+
+/**
+ * Active language (settings override or device) and `tr` bound to it.
+ * Components using it re-render when the language changes.
+ */
+export function useI18n() {
+  const { language } = useSettings();
+  const locale = resolveLocale(language);
+  return {
+    locale,
+    tr: (key: MessageKey, params?: Record<string, string | number>) =>
+      translate(locale, key, params),
+  };
+}
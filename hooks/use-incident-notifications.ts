@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import * as Notifications from "expo-notifications";
+import { useRouter } from "expo-router";
+
+/**
+ * Opens the incident detail when the user taps one of our notifications,
+ * including the one that launched the app.
+ */
+export function useIncidentNotifications() {
+  const router = useRouter();
+
+  useEffect(() => {
+    function open(response: Notifications.NotificationResponse | null) {
+      const eventId = response?.notification.request.content.data?.eventId;
+      if (typeof eventId !== "string") return;
+      router.push({ pathname: "/incident/[id]", params: { id: eventId } });
+    }
+
+    // la que abrió la app: la olvidamos para no volver a abrirla
+    open(Notifications.getLastNotificationResponse());
+    Notifications.clearLastNotificationResponse();
+    const subscription = Notifications.addNotificationResponseReceivedListener(open);
+    return () => subscription.remove();
+  }, [router]);
+}
@@ -0,0 +1,145 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type PropsWithChildren,
+} from "react";
+
+import { postReport } from "@/api/alerts";
+import { isRetryable } from "@/api/client";
+import { useSettings } from "@/hooks/use-settings";
+import {
+  loadReports,
+  newReportId,
+  pruneReports,
+  reportToEvent,
+  saveReports,
+  type IncidentReport,
+  type OwnReport,
+} from "@/utils/reports";
+
+/** What the report screen fills in; id and time are added on submit. */
+export type ReportDraft = Omit<IncidentReport, "id" | "createdAt">;
+
+type ReportsState = {
+  /** the driver's recent reports, newest first, sent or still queued */
+  reports: OwnReport[];
+  /** how many are waiting in the outbox */
+  pending: number;
+  /** queues the report and tries to send it; resolves to whether it went out now */
+  submit: (draft: ReportDraft) => Promise<boolean>;
+};
+
+const ReportsContext = createContext<ReportsState | null>(null);
+
+// Con avisos en la bandeja de salida, reintentamos cada 30 s.
+const RETRY_MS = 30000;
+
+/**
+ * Incidents reported by the driver. Each report is stored first and then
+ * POSTed; the ones that can't be sent (no coverage, server down) stay in
+ * an outbox that is retried while the app is open.
+ */
+export function ReportsProvider({ children }: PropsWithChildren) {
+  const { backendUrl, loaded } = useSettings();
+  // los reintentos corren desde un setInterval: leemos la URL vigente a través de un ref
+  const backendUrlRef = useRef(backendUrl);
+  useEffect(() => {
+    backendUrlRef.current = backendUrl;
+  }, [backendUrl]);
+
+  const [reports, setReports] = useState<OwnReport[]>([]);
+  // los envíos terminan en cualquier orden: partimos siempre de la última lista
+  const reportsRef = useRef<OwnReport[]>([]);
+  const flushingRef = useRef(false);
+
+  const [restored, setRestored] = useState(false);
+
+  useEffect(() => {
+    loadReports().then((stored) => {
+      update(() => stored);
+      setRestored(true);
+    });
+  }, []);
+
+  // la bandeja guardada no sale hasta saber a qué backend mandarla
+  useEffect(() => {
+    if (loaded && restored) flush();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loaded, restored]);
+
+  const pending = reports.filter((r) => r.pending).length;
+
+  useEffect(() => {
+    if (!pending || !loaded) return;
+    const timer = setInterval(flush, RETRY_MS);
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pending, loaded]);
+
+  function update(change: (reports: OwnReport[]) => OwnReport[]) {
+    const next = change(reportsRef.current);
+    reportsRef.current = next;
+    setReports(next);
+    saveReports(next);
+  }
+
+  /**
+   * Sends one report. Resolves to its new state, the same one if it must be
+   * retried later, or `null` if the backend rejected it.
+   */
+  async function send(own: OwnReport): Promise<OwnReport | null> {
+    try {
+      const event = await postReport(own.report, { baseUrl: backendUrlRef.current, retries: 0 });
+      // el backend puede no marcarlo: para nosotros siempre es un aviso propio
+      return { ...own, event: { ...event, source: "user" }, pending: false };
+    } catch (e) {
+      return isRetryable(e) ? own : null;
+    }
+  }
+
+  async function deliver(own: OwnReport) {
+    const result = await send(own);
+    update((all) =>
+      result
+        ? all.map((r) => (r.report.id === own.report.id ? result : r))
+        : all.filter((r) => r.report.id !== own.report.id)
+    );
+    return !!result && !result.pending;
+  }
+
+  async function flush() {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      update((all) => pruneReports(all));
+      for (const own of reportsRef.current.filter((r) => r.pending)) {
+        // sin conexión para uno, sin conexión para todos: esperamos al siguiente intento
+        if (!(await deliver(own)) && reportsRef.current.some((r) => r === own)) break;
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }
+
+  async function submit(draft: ReportDraft) {
+    const report = { ...draft, id: newReportId(), createdAt: new Date().toISOString() };
+    const own = { report, event: reportToEvent(report), pending: true };
+    update((all) => [own, ...pruneReports(all)]);
+    return deliver(own);
+  }
+
+  return (
+    <ReportsContext.Provider value={{ reports, pending, submit }}>
+      {children}
+    </ReportsContext.Provider>
+  );
+}
+
+export function useReports() {
+  const ctx = useContext(ReportsContext);
+  if (!ctx) throw new Error("useReports must be used inside <ReportsProvider>");
+  return ctx;
+}
@@ -0,0 +1,117 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  type PropsWithChildren,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  DEFAULT_BACKEND_URL,
+  DEFAULT_POLL_INTERVAL_MS,
+  DEFAULT_RADIUS_METERS,
+} from "@/constants/backend";
+import { resolveLocale, setLocale, type LanguagePreference } from "@/i18n";
+import { DEFAULT_ALERT_THRESHOLDS_METERS } from "@/utils/alert-tracker";
+import { DEFAULT_ALERT_FILTERS, type AlertFilters } from "@/utils/incident-filter";
+
+export type AlertMode = "beep" | "voice" | "both";
+
+export type Settings = {
+  backendUrl: string;
+  radiusMeters: number;
+  pollIntervalMs: number;
+  alertMode: AlertMode;
+  /** receive incidents through the `/alerts/stream` WebSocket */
+  streaming: boolean;
+  /** which incidents are shown and announced */
+  filters: AlertFilters;
+  /** vibrate with each category's pattern along with the beep */
+  vibration: boolean;
+  /** UI and voice language; "system" follows the device */
+  language: LanguagePreference;
+  /** distances (meters, farthest first) at which an incident is announced again */
+  alertThresholds: number[];
+};
+
+type SettingsState = Settings & {
+  /** false until the persisted settings have been read; until then these are the defaults */
+  loaded: boolean;
+  update: (patch: Partial<Settings>) => void;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  backendUrl: DEFAULT_BACKEND_URL,
+  radiusMeters: DEFAULT_RADIUS_METERS,
+  pollIntervalMs: DEFAULT_POLL_INTERVAL_MS,
+  alertMode: "beep",
+  streaming: false,
+  filters: DEFAULT_ALERT_FILTERS,
+  vibration: true,
+  language: "system",
+  alertThresholds: DEFAULT_ALERT_THRESHOLDS_METERS,
+};
+
+const STORAGE_KEY = "trafficalert.settings";
+
+/**
+ * Reads the persisted settings merged over the defaults. Also used by the
+ * background task, which has no access to React context.
+ */
+export async function loadSettings(): Promise<Settings> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+const SettingsContext = createContext<SettingsState | null>(null);
+
+/**
+ * User preferences shared by the driving loop and the screens, persisted on
+ * the device.
+ */
+export function SettingsProvider({ children }: PropsWithChildren) {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    loadSettings().then((stored) => {
+      apply(stored);
+      setLoaded(true);
+    });
+  }, []);
+
+  // el idioma global lo usan también los textos generados fuera de React
+  function apply(next: Settings) {
+    setLocale(resolveLocale(next.language));
+    setSettings(next);
+  }
+
+  function update(patch: Partial<Settings>) {
+    // antes de leer lo guardado escribiríamos los valores por defecto encima
+    if (!loaded) return;
+    // dos cambios seguidos en el mismo render: cada uno parte del anterior
+    setSettings((prev) => {
+      const next = { ...prev, ...patch };
+      setLocale(resolveLocale(next.language));
+      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next)).catch(() => {});
+      return next;
+    });
+  }
+
+  return (
+    <SettingsContext.Provider value={{ ...settings, loaded, update }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const ctx = useContext(SettingsContext);
+  if (!ctx) throw new Error("useSettings must be used inside <SettingsProvider>");
+  return ctx;
+}
@@ -0,0 +1,77 @@
+import { createContext, useContext, useState, type PropsWithChildren } from "react";
+
+import { getRouteAlerts } from "@/api/alerts";
+import { getDrivingRoute } from "@/api/routing";
+import { useSettings } from "@/hooks/use-settings";
+import type { Coords, PlannedIncident, RoadSegment } from "@/types/alerts";
+import { orderTripEvents, simplifyPolyline } from "@/utils/route-plan";
+
+export type Trip = {
+  origin?: Coords;
+  destination?: Coords;
+  polyline?: Coords[];
+  segments: RoadSegment[];
+  /** incidents along the trip, in the order the driver will meet them */
+  incidents: PlannedIncident[];
+  plannedAt: number;
+};
+
+export type TripRequest = {
+  origin?: Coords;
+  destination?: Coords;
+  segments?: RoadSegment[];
+};
+
+type TripState = {
+  trip: Trip | null;
+  planning: boolean;
+  /** fetches the route (if origin + destination) and its incidents */
+  planTrip: (request: TripRequest) => Promise<void>;
+  clearTrip: () => void;
+};
+
+const TripContext = createContext<TripState | null>(null);
+
+/**
+ * The planned trip, if any. The driving loop uses it to alert on incidents
+ * along the route as they approach.
+ */
+export function TripProvider({ children }: PropsWithChildren) {
+  const { backendUrl } = useSettings();
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [planning, setPlanning] = useState(false);
+
+  async function planTrip({ origin, destination, segments = [] }: TripRequest) {
+    setPlanning(true);
+    try {
+      const polyline =
+        origin && destination ? await getDrivingRoute(origin, destination) : undefined;
+      const events = await getRouteAlerts(
+        { polyline: polyline && simplifyPolyline(polyline), segments },
+        { baseUrl: backendUrl }
+      );
+      setTrip({
+        origin,
+        destination,
+        polyline,
+        segments,
+        incidents: orderTripEvents(events, { polyline, segments }),
+        plannedAt: Date.now(),
+      });
+    } finally {
+      setPlanning(false);
+    }
+  }
+
+  return (
+    <TripContext.Provider value={{ trip, planning, planTrip, clearTrip: () => setTrip(null) }}>
+      {children}
+    </TripContext.Provider>
+  );
+}
+
+export function useTrip() {
+  const ctx = useContext(TripContext);
+  if (!ctx) throw new Error("useTrip must be used inside <TripProvider>");
+  return ctx;
+}
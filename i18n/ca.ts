@@ -0,0 +1,284 @@
+import type { Messages } from "@/i18n";
+
+export const ca: Messages = {
+  "common.incident": "Incidència",
+  "common.delete": "Esborra",
+  "common.origin": "Origen",
+  "common.destination": "Destinació",
+
+  "tabs.home": "Inici",
+  "tabs.map": "Mapa",
+  "tabs.trip": "Ruta",
+  "tabs.roads": "Carreteres",
+  "tabs.history": "Historial",
+  "tabs.about": "Quant a",
+
+  "status.ready": "A punt",
+  "status.locating": "Obtenint la ubicació…",
+  "status.querying": "Consultant incidències…",
+  "status.noneNearby": "Cap incidència a prop",
+  "status.noneOnRoute": "Cap incidència a la teva ruta",
+  "status.alert": "ALERTA",
+  "status.driving": "Conducció activa",
+  "status.stopped": "Aturat",
+  "permission.title": "Cal permís",
+  "permission.location": "Sense ubicació no hi ha alertes.",
+
+  "error.timeout": "El backend no respon (timeout)",
+  "error.server": "Backend {status}",
+  "error.malformed": "Resposta no vàlida del backend",
+  "error.network": "Sense connexió amb el backend",
+  "error.generic": "Error en consultar el backend",
+
+  "age.now": "ara",
+  "age.ago": "fa {duration}",
+  "age.in": "d'aquí a {duration}",
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+  "duration.days": "{days} d",
+  "duration.daysHours": "{days} d {hours} h",
+
+  "home.subtitle": "MVP • alertes senzilles a prop teu",
+  "home.status": "Estat",
+  "home.offline": "Sense connexió: es mostren incidències desades, poden estar desactualitzades",
+  "home.fallback": "Servidor sense resposta: incidències directes de la DGT (DATEX II)",
+  "home.onRoute": "A la teva ruta ({count})",
+  "home.radius": "radi {distance}",
+  "home.live": "En directe ({radius})",
+  "home.every": "S'actualitza cada {seconds}s ({radius})",
+  "home.background": "{cadence}, també en segon pla",
+  "home.foreground": "{cadence} mentre condueixes",
+  "home.updating": "Actualitzant…",
+  "home.start": "Inicia la conducció",
+  "home.stop": "Atura",
+  "home.hud": "Pantalla de conducció",
+  "home.report": "Avisar d'una incidència",
+  "home.testNow": "Prova ara",
+  "home.backend": "Backend: {url}",
+  "home.demoData": "Dades de demostració (sense backend)",
+
+  "hits.sortDistance": "Distància",
+  "hits.sortSeverity": "Gravetat",
+  "hits.stale": "Sense confirmar • dada de {age}",
+  "hits.nearby": "A prop, però fora de la teva ruta",
+
+  "field.type": "Tipus",
+  "field.cause": "Causa",
+  "field.note": "Nota",
+  "field.road": "Carretera",
+  "field.pk": "PK",
+  "field.direction": "Sentit",
+  "field.orientation": "Orientació",
+  "field.since": "Des de",
+  "field.province": "Província",
+  "field.municipality": "Municipi",
+  "field.source": "Font",
+  "source.user": "Avís d'un conductor",
+  "field.coords": "Coordenades",
+  "field.severity": "Gravetat",
+  "field.feedback": "Confirmacions",
+
+  "map.summary": "{onRoute} a la teva ruta • {nearby} a prop • {status}",
+  "map.noPosition": "Encara sense posició",
+  "map.follow": "Seguir la meva posició",
+  "map.selected": "{title} a {distance}",
+  "map.stale": " (sense confirmar, {age})",
+  "map.webUnavailable": "Mapa no disponible al web",
+  "map.webIncidents": "Mapa no disponible al web ({count} incidències a prop)",
+  "map.webRoute": " (ruta de {count} punts)",
+
+  "trip.title": "Ruta",
+  "trip.subtitle": "Totes les incidències del teu viatge, en l'ordre en què te les trobaràs",
+  "trip.originPlaceholder": "Origen (buit = la meva ubicació)",
+  "trip.pickHint": "Mantén premut el mapa per fixar",
+  "trip.segments": "Trams (opcional)",
+  "trip.search": "Cerca incidències",
+  "trip.count": "{count} incidències a la ruta • t'avisarem quan t'hi acostis",
+  "trip.none": "Cap incidència a la ruta",
+  "trip.fromStart": "a {distance} de l'inici",
+  "trip.placeNotFound": "No trobo «{place}»",
+  "trip.badSegments": "Revisa els trams: una línia per tram, p. ex. «A-6 10-40»",
+  "trip.needDestination": "Indica una destinació o algun tram",
+  "trip.noLocation": "No s'ha pogut obtenir la teva ubicació",
+
+  "roads.title": "Les meves carreteres",
+  "roads.subtitle": "Trams que vigilem encara que no condueixis",
+  "roads.fromPk": "PK des de",
+  "roads.toPk": "PK fins a",
+  "roads.directionPlaceholder": "Sentit (opcional): creixent, nord…",
+  "roads.add": "Afegeix tram",
+  "roads.remove": "Treu",
+  "roads.lastCheck": "Última comprovació {age}",
+  "roads.neverChecked": "Encara sense comprovar",
+  "roads.checkNow": "Comprova ara",
+  "roads.noMatches": "Cap incidència als teus trams",
+  "roads.notification": "Incidència a {where}",
+
+  "history.title": "Historial",
+  "history.subtitle": "Incidències avisades a cada viatge",
+  "history.empty": "Encara no hi ha viatges. Es desen quan atures la conducció.",
+  "history.noIncidents": "Cap incidència en aquest viatge",
+  "history.countOne": "1 incidència",
+  "history.count": "{count} incidències",
+  "history.exportFailed": "No s'ha pogut exportar",
+  "history.tryAgain": "Torna-ho a provar.",
+
+  "hud.stopped": "Conducció aturada",
+  "hud.stop": "ATURA",
+  "hud.stopLabel": "Atura la conducció",
+  "hud.start": "INICIA",
+  "hud.exit": "SURT",
+
+  "detail.title": "Incidència",
+  "detail.open": "Mostra el detall",
+  "detail.share": "Comparteix",
+  "detail.shareFailed": "No s'ha pogut compartir",
+  "detail.notFound": "Aquesta incidència ja no està activa.",
+  "detail.distance": "A {distance} de tu",
+  "share.since": "Des de {since}",
+  "share.open": "Obre-la a TrafficAlert: {link}",
+
+  "settings.title": "Configuració",
+  "settings.url": "URL del backend",
+  "settings.urlHint": "Per exemple http://192.168.1.40:8080/api, o mock: per a dades de demostració",
+  "settings.urlError": "Ha de començar per http:// o https:// (o ser mock:)",
+  "settings.demoData": "Dades de demostració",
+  "settings.datex": "Reserva DATEX II",
+  "settings.datexHint":
+    "Si el servidor no respon, les incidències es calculen al mòbil a partir del feed DATEX II de la DGT. Per a proves pots carregar un fitxer DATEX II al seu lloc.",
+  "settings.datexFile": "{name}: {count} incidències",
+  "settings.datexInvalid": "El fitxer no és una publicació de situacions DATEX II.",
+  "settings.datexLoad": "Carregar fitxer DATEX II",
+  "settings.datexClear": "Fer servir el feed de la DGT",
+  "settings.test": "Prova la connexió",
+  "settings.connected": "Connectat ({ms} ms)",
+  "settings.radius": "Radi de cerca (m)",
+  "settings.radiusError": "Entre {min} i {max} m",
+  "settings.interval": "Interval de consulta (s)",
+  "settings.intervalError": "Entre {min} i {max} s",
+  "settings.thresholds": "Tornar a avisar a (m)",
+  "settings.thresholdsHint": "Distàncies a les quals es repeteix l'avís d'una incidència, separades per comes",
+  "settings.thresholdsError": "Fins a 5 distàncies entre {min} i {max} m",
+  "settings.alertMode": "Avís",
+  "settings.beep": "Xiulet",
+  "settings.voice": "Veu",
+  "settings.both": "Tots dos",
+  "settings.streaming": "Temps real",
+  "settings.streamingHint":
+    "Rep incidències a l'instant per WebSocket. Si es talla, torna a consultar a cada interval.",
+  "settings.minSeverity": "Gravetat mínima",
+  "settings.allSeverities": "Totes",
+  "settings.filtersHint":
+    "S'aplica al que veus a Inici i als avisos. «Sempre» avisa d'aquesta categoria sigui quina sigui la gravetat.",
+  "settings.ruleDefault": "Normal",
+  "settings.ruleIgnore": "Ignora",
+  "settings.ruleAlways": "Sempre",
+  "settings.vibration": "Vibració",
+  "settings.vibrationHint": "Cada tipus d'incidència té el seu propi patró de vibració i de xiulet.",
+  "settings.language": "Idioma",
+  "settings.languageSystem": "Sistema",
+  "settings.save": "Desa",
+  "settings.saved": "Desat",
+  "settings.defaults": "Valors per defecte",
+
+  "simulate.title": "Conducció simulada",
+  "simulate.subtitle":
+    "Mode desenvolupador: reprodueix una traça GPX o JSON en lloc del GPS. Les alertes, distàncies i sons funcionen igual que conduint.",
+  "simulate.pickFile": "Carrega GPX o JSON",
+  "simulate.recorded": "Viatges enregistrats",
+  "simulate.points": "{count} punts • {duration}",
+  "simulate.speed": "Velocitat",
+  "simulate.start": "Inicia la simulació",
+  "simulate.stop": "Atura la simulació",
+  "simulate.invalid": "No s'ha pogut llegir la traça",
+  "simulate.invalidHint": "Cal un GPX amb punts de track o un JSON amb almenys dues posicions.",
+  "simulate.banner": "SIMULACIÓ • {name} • {speed}× • {progress} %",
+  "simulate.position": "Posició simulada",
+  "simulate.badge": "SIMULACIÓ {speed}×",
+  "report.title": "Avisar d'una incidència",
+  "report.where": "La teva posició",
+  "report.kind": "Què hi ha?",
+  "report.kind.accident": "Accident",
+  "report.kind.object": "Objecte a la calçada",
+  "report.kind.animal": "Animal solt",
+  "report.kind.jam": "Embús",
+  "report.kind.weather": "Meteorologia",
+  "report.note": "Nota (opcional)",
+  "report.notePlaceholder": "Ex.: carril dret",
+  "report.send": "Enviar l'avís",
+  "report.sent": "Avís enviat. Gràcies!",
+  "report.queued": "Sense connexió: desem l'avís i l'enviarem tan aviat com es pugui.",
+  "report.pending": "{count} avisos pendents d'enviar",
+  "report.simulated": "Durant una simulació només es pot avisar amb les dades de demostració.",
+  "feedback.question": "Encara hi és?",
+  "feedback.spoken": "{what}: encara hi és?",
+  "feedback.yes": "Sí, hi és",
+  "feedback.no": "No, ja no hi és",
+  "feedback.dismiss": "Ignora",
+  "feedback.cleared": "{count} conductors diuen que ja no hi és",
+  "feedback.counts": "{yes} hi és • {no} ja no hi és",
+
+  "category.accident": "Accidents",
+  "category.closure": "Talls",
+  "category.obstacle": "Obstacles",
+  "category.weather": "Meteorologia",
+  "category.congestion": "Retencions",
+  "category.roadworks": "Obres",
+  "category.other": "Altres",
+
+  "format.pk": "PK {pk}",
+  "direction.increasing": "Creixent (PK en augment)",
+  "direction.decreasing": "Decreixent (PK en descens)",
+  "direction.both": "Tots dos sentits",
+  "orientation.north": "Cap al nord",
+  "orientation.northEast": "Cap al nord-est",
+  "orientation.east": "Cap a l'est",
+  "orientation.southEast": "Cap al sud-est",
+  "orientation.south": "Cap al sud",
+  "orientation.southWest": "Cap al sud-oest",
+  "orientation.west": "Cap a l'oest",
+  "orientation.northWest": "Cap al nord-oest",
+
+  "incident.accident": "Accident",
+  "incident.closure": "Carretera tallada",
+  "incident.obstacle": "Obstacle a la calçada",
+  "incident.weather": "Meteorologia adversa",
+  "incident.congestion": "Retenció",
+  "incident.roadworks": "Obres",
+  "cause.fog": "Boira",
+  "cause.snow": "Neu",
+  "cause.ice": "Gel",
+  "cause.rain": "Pluja",
+  "cause.wind": "Vent",
+  "cause.animal": "Animal a la calçada",
+  "cause.object": "Objecte a la calçada",
+  "cause.breakdown": "Vehicle avariat",
+
+  "background.title": "TrafficAlert • conducció activa",
+  "background.body": "Vigilant incidències a la teva ruta",
+  "notifications.channel": "Alertes de trànsit",
+  "notifications.incidentAt": "Incidència a {distance}",
+
+  "speech.on": "{what} a la {road}",
+  "speech.pk": "punt quilomètric {pk}",
+  "speech.at": "a {distance}",
+  "speech.meters": "{meters} metres",
+  "speech.oneKm": "1 quilòmetre",
+  "speech.km": "{km} quilòmetres",
+
+  "about.title": "Quant a",
+  "about.intro": "TrafficAlert t'avisa de les incidències de trànsit que tens al davant mentre condueixes.",
+  "about.drivingTitle": "Conducció",
+  "about.drivingBody":
+    "Prem «Inicia la conducció» i l'app consultarà les incidències properes segons la teva velocitat. Només t'avisa de les que són a la teva carretera i en el teu sentit.",
+  "about.tripTitle": "Rutes i carreteres",
+  "about.tripBody":
+    "Planifica un viatge per veure'n les incidències en ordre, o vigila els teus trams habituals encara que no condueixis.",
+  "about.offlineTitle": "Sense connexió",
+  "about.offlineBody":
+    "Si perds la cobertura continuem fent servir les últimes incidències conegudes, marcades com a sense confirmar.",
+  "about.dataTitle": "Dades",
+  "about.dataBody": "Les incidències provenen del backend configurat a Configuració.",
+  "about.learnMore": "Més informació",
+};
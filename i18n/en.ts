@@ -0,0 +1,284 @@
+import type { Messages } from "@/i18n";
+
+export const en: Messages = {
+  "common.incident": "Incident",
+  "common.delete": "Delete",
+  "common.origin": "Origin",
+  "common.destination": "Destination",
+
+  "tabs.home": "Home",
+  "tabs.map": "Map",
+  "tabs.trip": "Trip",
+  "tabs.roads": "Roads",
+  "tabs.history": "History",
+  "tabs.about": "About",
+
+  "status.ready": "Ready",
+  "status.locating": "Getting location…",
+  "status.querying": "Checking incidents…",
+  "status.noneNearby": "No incidents nearby",
+  "status.noneOnRoute": "No incidents on your route",
+  "status.alert": "ALERT",
+  "status.driving": "Driving",
+  "status.stopped": "Stopped",
+  "permission.title": "Permission required",
+  "permission.location": "Without your location there are no alerts.",
+
+  "error.timeout": "Backend not responding (timeout)",
+  "error.server": "Backend {status}",
+  "error.malformed": "Invalid response from the backend",
+  "error.network": "Can't reach the backend",
+  "error.generic": "Error querying the backend",
+
+  "age.now": "now",
+  "age.ago": "{duration} ago",
+  "age.in": "in {duration}",
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+  "duration.days": "{days} d",
+  "duration.daysHours": "{days} d {hours} h",
+
+  "home.subtitle": "MVP • simple alerts around you",
+  "home.status": "Status",
+  "home.offline": "Offline: showing saved incidents, they may be out of date",
+  "home.fallback": "Server not responding: incidents straight from the DGT (DATEX II)",
+  "home.onRoute": "On your route ({count})",
+  "home.radius": "radius {distance}",
+  "home.live": "Live ({radius})",
+  "home.every": "Updates every {seconds}s ({radius})",
+  "home.background": "{cadence}, also in the background",
+  "home.foreground": "{cadence} while you drive",
+  "home.updating": "Updating…",
+  "home.start": "Start driving",
+  "home.stop": "Stop",
+  "home.hud": "Driving screen",
+  "home.report": "Report an incident",
+  "home.testNow": "Check now",
+  "home.backend": "Backend: {url}",
+  "home.demoData": "Demo data (no backend)",
+
+  "hits.sortDistance": "Distance",
+  "hits.sortSeverity": "Severity",
+  "hits.stale": "Unconfirmed • data from {age}",
+  "hits.nearby": "Nearby, but off your route",
+
+  "field.type": "Type",
+  "field.cause": "Cause",
+  "field.note": "Note",
+  "field.road": "Road",
+  "field.pk": "Km point",
+  "field.direction": "Direction",
+  "field.orientation": "Heading",
+  "field.since": "Since",
+  "field.province": "Province",
+  "field.municipality": "Municipality",
+  "field.source": "Source",
+  "source.user": "Driver report",
+  "field.coords": "Coordinates",
+  "field.severity": "Severity",
+  "field.feedback": "Driver feedback",
+
+  "map.summary": "{onRoute} on your route • {nearby} nearby • {status}",
+  "map.noPosition": "No position yet",
+  "map.follow": "Follow my position",
+  "map.selected": "{title} in {distance}",
+  "map.stale": " (unconfirmed, {age})",
+  "map.webUnavailable": "Map not available on the web",
+  "map.webIncidents": "Map not available on the web ({count} incidents nearby)",
+  "map.webRoute": " (route with {count} points)",
+
+  "trip.title": "Trip",
+  "trip.subtitle": "Every incident on your trip, in the order you'll reach them",
+  "trip.originPlaceholder": "Origin (empty = my location)",
+  "trip.pickHint": "Long-press the map to set",
+  "trip.segments": "Road sections (optional)",
+  "trip.search": "Find incidents",
+  "trip.count": "{count} incidents on the route • we'll warn you as you approach",
+  "trip.none": "No incidents on the route",
+  "trip.fromStart": "{distance} from the start",
+  "trip.placeNotFound": "Can't find “{place}”",
+  "trip.badSegments": "Check the sections: one per line, e.g. “A-6 10-40”",
+  "trip.needDestination": "Enter a destination or a road section",
+  "trip.noLocation": "Couldn't get your location",
+
+  "roads.title": "My roads",
+  "roads.subtitle": "Sections we watch even when you're not driving",
+  "roads.fromPk": "From km",
+  "roads.toPk": "To km",
+  "roads.directionPlaceholder": "Direction (optional): increasing, north…",
+  "roads.add": "Add section",
+  "roads.remove": "Remove",
+  "roads.lastCheck": "Last checked {age}",
+  "roads.neverChecked": "Not checked yet",
+  "roads.checkNow": "Check now",
+  "roads.noMatches": "No incidents on your sections",
+  "roads.notification": "Incident on {where}",
+
+  "history.title": "History",
+  "history.subtitle": "Incidents you were warned about on each trip",
+  "history.empty": "No trips yet. They're saved when you stop driving.",
+  "history.noIncidents": "No incidents on this trip",
+  "history.countOne": "1 incident",
+  "history.count": "{count} incidents",
+  "history.exportFailed": "Couldn't export",
+  "history.tryAgain": "Please try again.",
+
+  "hud.stopped": "Driving stopped",
+  "hud.stop": "STOP",
+  "hud.stopLabel": "Stop driving",
+  "hud.start": "START",
+  "hud.exit": "EXIT",
+
+  "detail.title": "Incident",
+  "detail.open": "View details",
+  "detail.share": "Share",
+  "detail.shareFailed": "Couldn't share",
+  "detail.notFound": "This incident is no longer active.",
+  "detail.distance": "{distance} from you",
+  "share.since": "Since {since}",
+  "share.open": "Open it in TrafficAlert: {link}",
+
+  "settings.title": "Settings",
+  "settings.url": "Backend URL",
+  "settings.urlHint": "For example http://192.168.1.40:8080/api, or mock: for demo data",
+  "settings.urlError": "Must start with http:// or https:// (or be mock:)",
+  "settings.demoData": "Demo data",
+  "settings.datex": "DATEX II fallback",
+  "settings.datexHint":
+    "If the server doesn't respond, incidents are computed on the phone from the DGT DATEX II feed. For testing you can load a DATEX II file instead.",
+  "settings.datexFile": "{name}: {count} incidents",
+  "settings.datexInvalid": "The file isn't a DATEX II situation publication.",
+  "settings.datexLoad": "Load DATEX II file",
+  "settings.datexClear": "Use the DGT feed",
+  "settings.test": "Test connection",
+  "settings.connected": "Connected ({ms} ms)",
+  "settings.radius": "Search radius (m)",
+  "settings.radiusError": "Between {min} and {max} m",
+  "settings.interval": "Polling interval (s)",
+  "settings.intervalError": "Between {min} and {max} s",
+  "settings.thresholds": "Announce again at (m)",
+  "settings.thresholdsHint": "Distances at which an incident is announced again, separated by commas",
+  "settings.thresholdsError": "Up to 5 distances between {min} and {max} m",
+  "settings.alertMode": "Alert",
+  "settings.beep": "Beep",
+  "settings.voice": "Voice",
+  "settings.both": "Both",
+  "settings.streaming": "Real time",
+  "settings.streamingHint":
+    "Get incidents instantly over WebSocket. If it drops, we poll every interval again.",
+  "settings.minSeverity": "Minimum severity",
+  "settings.allSeverities": "All",
+  "settings.filtersHint":
+    "Applies to what you see on Home and to the alerts. \"Always\" alerts on that category whatever its severity.",
+  "settings.ruleDefault": "Normal",
+  "settings.ruleIgnore": "Ignore",
+  "settings.ruleAlways": "Always",
+  "settings.vibration": "Vibration",
+  "settings.vibrationHint": "Each kind of incident has its own vibration and beep pattern.",
+  "settings.language": "Language",
+  "settings.languageSystem": "System",
+  "settings.save": "Save",
+  "settings.saved": "Saved",
+  "settings.defaults": "Restore defaults",
+
+  "simulate.title": "Simulated drive",
+  "simulate.subtitle":
+    "Developer mode: replays a GPX or JSON track instead of the GPS. Alerts, distances and sounds work just as when driving.",
+  "simulate.pickFile": "Load GPX or JSON",
+  "simulate.recorded": "Recorded trips",
+  "simulate.points": "{count} points • {duration}",
+  "simulate.speed": "Speed",
+  "simulate.start": "Start simulation",
+  "simulate.stop": "Stop simulation",
+  "simulate.invalid": "Couldn't read the track",
+  "simulate.invalidHint": "It needs a GPX with track points or a JSON with at least two positions.",
+  "simulate.banner": "SIMULATION • {name} • {speed}× • {progress}%",
+  "simulate.position": "Simulated position",
+  "simulate.badge": "SIMULATION {speed}×",
+  "report.title": "Report an incident",
+  "report.where": "Your position",
+  "report.kind": "What's there?",
+  "report.kind.accident": "Accident",
+  "report.kind.object": "Object on the road",
+  "report.kind.animal": "Loose animal",
+  "report.kind.jam": "Traffic jam",
+  "report.kind.weather": "Weather",
+  "report.note": "Note (optional)",
+  "report.notePlaceholder": "E.g. right lane",
+  "report.send": "Send report",
+  "report.sent": "Report sent. Thank you!",
+  "report.queued": "No connection: your report is saved and will be sent as soon as possible.",
+  "report.pending": "{count} reports waiting to be sent",
+  "report.simulated": "During a simulated drive, reports only work with the demo data.",
+  "feedback.question": "Still there?",
+  "feedback.spoken": "{what}: still there?",
+  "feedback.yes": "Yes, still there",
+  "feedback.no": "No, it's gone",
+  "feedback.dismiss": "Ignore",
+  "feedback.cleared": "{count} drivers say it's gone",
+  "feedback.counts": "{yes} still there • {no} gone",
+
+  "category.accident": "Accidents",
+  "category.closure": "Closures",
+  "category.obstacle": "Obstacles",
+  "category.weather": "Weather",
+  "category.congestion": "Congestion",
+  "category.roadworks": "Roadworks",
+  "category.other": "Other",
+
+  "format.pk": "km {pk}",
+  "direction.increasing": "Increasing (km points rising)",
+  "direction.decreasing": "Decreasing (km points falling)",
+  "direction.both": "Both directions",
+  "orientation.north": "Heading north",
+  "orientation.northEast": "Heading northeast",
+  "orientation.east": "Heading east",
+  "orientation.southEast": "Heading southeast",
+  "orientation.south": "Heading south",
+  "orientation.southWest": "Heading southwest",
+  "orientation.west": "Heading west",
+  "orientation.northWest": "Heading northwest",
+
+  "incident.accident": "Accident",
+  "incident.closure": "Road closed",
+  "incident.obstacle": "Obstacle on the road",
+  "incident.weather": "Adverse weather",
+  "incident.congestion": "Slow traffic",
+  "incident.roadworks": "Roadworks",
+  "cause.fog": "Fog",
+  "cause.snow": "Snow",
+  "cause.ice": "Ice",
+  "cause.rain": "Rain",
+  "cause.wind": "Strong wind",
+  "cause.animal": "Animal on the road",
+  "cause.object": "Object on the road",
+  "cause.breakdown": "Broken-down vehicle",
+
+  "background.title": "TrafficAlert • driving",
+  "background.body": "Watching for incidents on your route",
+  "notifications.channel": "Traffic alerts",
+  "notifications.incidentAt": "Incident in {distance}",
+
+  "speech.on": "{what} on {road}",
+  "speech.pk": "kilometre point {pk}",
+  "speech.at": "in {distance}",
+  "speech.meters": "{meters} metres",
+  "speech.oneKm": "1 kilometre",
+  "speech.km": "{km} kilometres",
+
+  "about.title": "About",
+  "about.intro": "TrafficAlert warns you about the traffic incidents ahead while you drive.",
+  "about.drivingTitle": "Driving",
+  "about.drivingBody":
+    "Tap “Start driving” and the app checks nearby incidents according to your speed. It only warns you about those on your road and in your direction.",
+  "about.tripTitle": "Trips and roads",
+  "about.tripBody":
+    "Plan a trip to see its incidents in order, or watch your usual road sections even when you're not driving.",
+  "about.offlineTitle": "Offline",
+  "about.offlineBody":
+    "If you lose coverage we keep using the last known incidents, marked as unconfirmed.",
+  "about.dataTitle": "Data",
+  "about.dataBody": "Incidents come from the backend configured in Settings.",
+  "about.learnMore": "Learn more",
+};
@@ -0,0 +1,284 @@
+// Catálogo de referencia: el resto de idiomas debe tener exactamente estas claves.
+export const es = {
+  "common.incident": "Incidencia",
+  "common.delete": "Borrar",
+  "common.origin": "Origen",
+  "common.destination": "Destino",
+
+  "tabs.home": "Inicio",
+  "tabs.map": "Mapa",
+  "tabs.trip": "Ruta",
+  "tabs.roads": "Carreteras",
+  "tabs.history": "Historial",
+  "tabs.about": "Acerca de",
+
+  "status.ready": "Listo",
+  "status.locating": "Obteniendo ubicación…",
+  "status.querying": "Consultando incidencias…",
+  "status.noneNearby": "Sin incidencias cercanas",
+  "status.noneOnRoute": "Sin incidencias en tu ruta",
+  "status.alert": "ALERTA",
+  "status.driving": "Conducción activa",
+  "status.stopped": "Parado",
+  "permission.title": "Permiso requerido",
+  "permission.location": "Sin ubicación no hay alertas.",
+
+  "error.timeout": "Backend sin respuesta (timeout)",
+  "error.server": "Backend {status}",
+  "error.malformed": "Respuesta inválida del backend",
+  "error.network": "Sin conexión con el backend",
+  "error.generic": "Error consultando backend",
+
+  "age.now": "ahora",
+  "age.ago": "hace {duration}",
+  "age.in": "dentro de {duration}",
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+  "duration.days": "{days} d",
+  "duration.daysHours": "{days} d {hours} h",
+
+  "home.subtitle": "MVP • alertas simples cerca de ti",
+  "home.status": "Estado",
+  "home.offline": "Sin conexión: mostrando incidencias guardadas, pueden estar desactualizadas",
+  "home.fallback": "Servidor sin respuesta: incidencias directas de la DGT (DATEX II)",
+  "home.onRoute": "En tu ruta ({count})",
+  "home.radius": "radio {distance}",
+  "home.live": "En vivo ({radius})",
+  "home.every": "Actualiza cada {seconds}s ({radius})",
+  "home.background": "{cadence}, también en segundo plano",
+  "home.foreground": "{cadence} mientras conduces",
+  "home.updating": "Actualizando…",
+  "home.start": "Iniciar conducción",
+  "home.stop": "Detener",
+  "home.hud": "Pantalla de conducción",
+  "home.report": "Avisar de una incidencia",
+  "home.testNow": "Probar ahora",
+  "home.backend": "Backend: {url}",
+  "home.demoData": "Datos de demostración (sin backend)",
+
+  "hits.sortDistance": "Distancia",
+  "hits.sortSeverity": "Severidad",
+  "hits.stale": "Sin confirmar • dato de {age}",
+  "hits.nearby": "Cerca, pero fuera de tu ruta",
+
+  "field.type": "Tipo",
+  "field.cause": "Causa",
+  "field.note": "Nota",
+  "field.road": "Carretera",
+  "field.pk": "PK",
+  "field.direction": "Sentido",
+  "field.orientation": "Orientación",
+  "field.since": "Desde",
+  "field.province": "Provincia",
+  "field.municipality": "Municipio",
+  "field.source": "Fuente",
+  "source.user": "Aviso de un conductor",
+  "field.coords": "Coordenadas",
+  "field.severity": "Severidad",
+  "field.feedback": "Confirmaciones",
+
+  "map.summary": "{onRoute} en tu ruta • {nearby} cerca • {status}",
+  "map.noPosition": "Sin posición todavía",
+  "map.follow": "Seguir mi posición",
+  "map.selected": "{title} a {distance}",
+  "map.stale": " (sin confirmar, {age})",
+  "map.webUnavailable": "Mapa no disponible en web",
+  "map.webIncidents": "Mapa no disponible en web ({count} incidencias cercanas)",
+  "map.webRoute": " (ruta de {count} puntos)",
+
+  "trip.title": "Ruta",
+  "trip.subtitle": "Todas las incidencias de tu viaje, en el orden en que te las encontrarás",
+  "trip.originPlaceholder": "Origen (vacío = mi ubicación)",
+  "trip.pickHint": "Mantén pulsado el mapa para fijar",
+  "trip.segments": "Tramos (opcional)",
+  "trip.search": "Buscar incidencias",
+  "trip.count": "{count} incidencias en la ruta • te avisaremos al acercarte",
+  "trip.none": "Sin incidencias en la ruta",
+  "trip.fromStart": "a {distance} del inicio",
+  "trip.placeNotFound": "No encuentro «{place}»",
+  "trip.badSegments": "Revisa los tramos: una línea por tramo, p. ej. «A-6 10-40»",
+  "trip.needDestination": "Indica un destino o algún tramo",
+  "trip.noLocation": "No se pudo obtener tu ubicación",
+
+  "roads.title": "Mis carreteras",
+  "roads.subtitle": "Tramos que vigilamos aunque no estés conduciendo",
+  "roads.fromPk": "PK desde",
+  "roads.toPk": "PK hasta",
+  "roads.directionPlaceholder": "Sentido (opcional): creciente, norte…",
+  "roads.add": "Añadir tramo",
+  "roads.remove": "Quitar",
+  "roads.lastCheck": "Última comprobación {age}",
+  "roads.neverChecked": "Sin comprobar todavía",
+  "roads.checkNow": "Comprobar ahora",
+  "roads.noMatches": "Sin incidencias en tus tramos",
+  "roads.notification": "Incidencia en {where}",
+
+  "history.title": "Historial",
+  "history.subtitle": "Incidencias avisadas en cada viaje",
+  "history.empty": "Aún no hay viajes. Se guardan al detener la conducción.",
+  "history.noIncidents": "Sin incidencias en este viaje",
+  "history.countOne": "1 incidencia",
+  "history.count": "{count} incidencias",
+  "history.exportFailed": "No se pudo exportar",
+  "history.tryAgain": "Inténtalo de nuevo.",
+
+  "hud.stopped": "Conducción detenida",
+  "hud.stop": "DETENER",
+  "hud.stopLabel": "Detener conducción",
+  "hud.start": "INICIAR",
+  "hud.exit": "SALIR",
+
+  "detail.title": "Incidencia",
+  "detail.open": "Ver detalle",
+  "detail.share": "Compartir",
+  "detail.shareFailed": "No se pudo compartir",
+  "detail.notFound": "Esta incidencia ya no está activa.",
+  "detail.distance": "A {distance} de ti",
+  "share.since": "Desde {since}",
+  "share.open": "Ábrela en TrafficAlert: {link}",
+
+  "settings.title": "Ajustes",
+  "settings.url": "URL del backend",
+  "settings.urlHint": "Por ejemplo http://192.168.1.40:8080/api, o mock: para datos de demostración",
+  "settings.urlError": "Debe empezar por http:// o https:// (o ser mock:)",
+  "settings.demoData": "Datos de demostración",
+  "settings.datex": "Respaldo DATEX II",
+  "settings.datexHint":
+    "Si el servidor no responde, las incidencias se calculan en el móvil a partir del feed DATEX II de la DGT. Para pruebas puedes cargar un fichero DATEX II en su lugar.",
+  "settings.datexFile": "{name}: {count} incidencias",
+  "settings.datexInvalid": "El fichero no es una publicación de situaciones DATEX II.",
+  "settings.datexLoad": "Cargar fichero DATEX II",
+  "settings.datexClear": "Usar el feed de la DGT",
+  "settings.test": "Probar conexión",
+  "settings.connected": "Conectado ({ms} ms)",
+  "settings.radius": "Radio de búsqueda (m)",
+  "settings.radiusError": "Entre {min} y {max} m",
+  "settings.interval": "Intervalo de consulta (s)",
+  "settings.intervalError": "Entre {min} y {max} s",
+  "settings.thresholds": "Avisar de nuevo a (m)",
+  "settings.thresholdsHint": "Distancias a las que se repite el aviso de una incidencia, separadas por comas",
+  "settings.thresholdsError": "Hasta 5 distancias entre {min} y {max} m",
+  "settings.alertMode": "Aviso",
+  "settings.beep": "Pitido",
+  "settings.voice": "Voz",
+  "settings.both": "Ambos",
+  "settings.streaming": "Tiempo real",
+  "settings.streamingHint":
+    "Recibe incidencias al instante por WebSocket. Si se corta, vuelve a consultar cada intervalo.",
+  "settings.minSeverity": "Severidad mínima",
+  "settings.allSeverities": "Todas",
+  "settings.filtersHint":
+    "Se aplica a lo que ves en Inicio y a los avisos. \"Siempre\" avisa de esa categoría sea cual sea su severidad.",
+  "settings.ruleDefault": "Normal",
+  "settings.ruleIgnore": "Ignorar",
+  "settings.ruleAlways": "Siempre",
+  "settings.vibration": "Vibración",
+  "settings.vibrationHint": "Cada tipo de incidencia tiene su propio patrón de vibración y de pitido.",
+  "settings.language": "Idioma",
+  "settings.languageSystem": "Sistema",
+  "settings.save": "Guardar",
+  "settings.saved": "Guardado",
+  "settings.defaults": "Valores por defecto",
+
+  "simulate.title": "Simulación de conducción",
+  "simulate.subtitle":
+    "Modo desarrollador: reproduce una traza GPX o JSON en lugar del GPS. Las alertas, distancias y sonidos funcionan igual que conduciendo.",
+  "simulate.pickFile": "Cargar GPX o JSON",
+  "simulate.recorded": "Viajes grabados",
+  "simulate.points": "{count} puntos • {duration}",
+  "simulate.speed": "Velocidad",
+  "simulate.start": "Iniciar simulación",
+  "simulate.stop": "Detener simulación",
+  "simulate.invalid": "No se pudo leer la traza",
+  "simulate.invalidHint":
+    "Hace falta un GPX con puntos de track o un JSON con al menos dos posiciones.",
+  "simulate.banner": "SIMULACIÓN • {name} • {speed}× • {progress} %",
+  "simulate.position": "Posición simulada",
+  "simulate.badge": "SIMULACIÓN {speed}×",
+  "report.title": "Avisar de una incidencia",
+  "report.where": "Tu posición",
+  "report.kind": "¿Qué hay?",
+  "report.kind.accident": "Accidente",
+  "report.kind.object": "Objeto en la calzada",
+  "report.kind.animal": "Animal suelto",
+  "report.kind.jam": "Atasco",
+  "report.kind.weather": "Meteorología",
+  "report.note": "Nota (opcional)",
+  "report.notePlaceholder": "Ej.: carril derecho",
+  "report.send": "Enviar aviso",
+  "report.sent": "Aviso enviado. ¡Gracias!",
+  "report.queued": "Sin conexión: guardamos el aviso y lo enviaremos en cuanto se pueda.",
+  "report.pending": "{count} avisos pendientes de enviar",
+  "report.simulated": "Durante una simulación solo se puede avisar con los datos de demostración.",
+  "feedback.question": "¿Sigue ahí?",
+  "feedback.spoken": "{what}: ¿sigue ahí?",
+  "feedback.yes": "Sí, sigue",
+  "feedback.no": "No, ya no está",
+  "feedback.dismiss": "Ignorar",
+  "feedback.cleared": "{count} conductores dicen que ya no está",
+  "feedback.counts": "{yes} sigue • {no} ya no está",
+
+  "category.accident": "Accidentes",
+  "category.closure": "Cortes",
+  "category.obstacle": "Obstáculos",
+  "category.weather": "Meteorología",
+  "category.congestion": "Retenciones",
+  "category.roadworks": "Obras",
+  "category.other": "Otras",
+
+  "format.pk": "PK {pk}",
+  "direction.increasing": "Creciente (PK en aumento)",
+  "direction.decreasing": "Decreciente (PK en descenso)",
+  "direction.both": "Ambos sentidos",
+  "orientation.north": "Hacia el norte",
+  "orientation.northEast": "Hacia el noreste",
+  "orientation.east": "Hacia el este",
+  "orientation.southEast": "Hacia el sureste",
+  "orientation.south": "Hacia el sur",
+  "orientation.southWest": "Hacia el suroeste",
+  "orientation.west": "Hacia el oeste",
+  "orientation.northWest": "Hacia el noroeste",
+
+  "incident.accident": "Accidente",
+  "incident.closure": "Carretera cortada",
+  "incident.obstacle": "Obstáculo en la calzada",
+  "incident.weather": "Meteorología adversa",
+  "incident.congestion": "Retención",
+  "incident.roadworks": "Obras",
+  "cause.fog": "Niebla",
+  "cause.snow": "Nieve",
+  "cause.ice": "Hielo",
+  "cause.rain": "Lluvia",
+  "cause.wind": "Viento",
+  "cause.animal": "Animal en la calzada",
+  "cause.object": "Objeto en la calzada",
+  "cause.breakdown": "Vehículo averiado",
+
+  "background.title": "TrafficAlert • conducción activa",
+  "background.body": "Vigilando incidencias en tu ruta",
+  "notifications.channel": "Alertas de tráfico",
+  "notifications.incidentAt": "Incidencia a {distance}",
+
+  "speech.on": "{what} en {road}",
+  "speech.pk": "punto kilométrico {pk}",
+  "speech.at": "a {distance}",
+  "speech.meters": "{meters} metros",
+  "speech.oneKm": "1 kilómetro",
+  "speech.km": "{km} kilómetros",
+
+  "about.title": "Acerca de",
+  "about.intro": "TrafficAlert te avisa de las incidencias de tráfico que tienes por delante mientras conduces.",
+  "about.drivingTitle": "Conducción",
+  "about.drivingBody":
+    "Pulsa «Iniciar conducción» y la app consultará las incidencias cercanas según tu velocidad. Solo te avisa de las que están en tu carretera y en tu sentido.",
+  "about.tripTitle": "Rutas y carreteras",
+  "about.tripBody":
+    "Planifica un viaje para ver sus incidencias en orden, o vigila tus tramos habituales aunque no estés conduciendo.",
+  "about.offlineTitle": "Sin conexión",
+  "about.offlineBody":
+    "Si pierdes la cobertura seguimos usando las últimas incidencias conocidas, marcadas como sin confirmar.",
+  "about.dataTitle": "Datos",
+  "about.dataBody": "Las incidencias proceden del backend configurado en Ajustes.",
+  "about.learnMore": "Más información",
+};
@@ -0,0 +1,285 @@
+import type { Messages } from "@/i18n";
+
+export const eu: Messages = {
+  "common.incident": "Gorabehera",
+  "common.delete": "Ezabatu",
+  "common.origin": "Jatorria",
+  "common.destination": "Helmuga",
+
+  "tabs.home": "Hasiera",
+  "tabs.map": "Mapa",
+  "tabs.trip": "Ibilbidea",
+  "tabs.roads": "Errepideak",
+  "tabs.history": "Historia",
+  "tabs.about": "Honi buruz",
+
+  "status.ready": "Prest",
+  "status.locating": "Kokapena lortzen…",
+  "status.querying": "Gorabeherak kontsultatzen…",
+  "status.noneNearby": "Ez dago gorabeherarik inguruan",
+  "status.noneOnRoute": "Ez dago gorabeherarik zure ibilbidean",
+  "status.alert": "ALERTA",
+  "status.driving": "Gidatzen",
+  "status.stopped": "Geldituta",
+  "permission.title": "Baimena behar da",
+  "permission.location": "Kokapenik gabe ez dago alertarik.",
+
+  "error.timeout": "Backendak ez du erantzuten (timeout)",
+  "error.server": "Backend {status}",
+  "error.malformed": "Backendaren erantzun baliogabea",
+  "error.network": "Ez dago konexiorik backendarekin",
+  "error.generic": "Errorea backenda kontsultatzean",
+
+  "age.now": "orain",
+  "age.ago": "duela {duration}",
+  "age.in": "{duration} barru",
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+  "duration.days": "{days} d",
+  "duration.daysHours": "{days} d {hours} h",
+
+  "home.subtitle": "MVP • alerta errazak zure inguruan",
+  "home.status": "Egoera",
+  "home.offline": "Konexiorik gabe: gordetako gorabeherak erakusten, zaharkituta egon daitezke",
+  "home.fallback": "Zerbitzariak ez du erantzuten: DGTren gorabeherak zuzenean (DATEX II)",
+  "home.onRoute": "Zure ibilbidean ({count})",
+  "home.radius": "erradioa {distance}",
+  "home.live": "Zuzenean ({radius})",
+  "home.every": "{seconds}s-ro eguneratzen da ({radius})",
+  "home.background": "{cadence}, bigarren planoan ere bai",
+  "home.foreground": "{cadence} gidatzen duzun bitartean",
+  "home.updating": "Eguneratzen…",
+  "home.start": "Hasi gidatzen",
+  "home.stop": "Gelditu",
+  "home.hud": "Gidatzeko pantaila",
+  "home.report": "Gorabehera baten berri eman",
+  "home.testNow": "Probatu orain",
+  "home.backend": "Backenda: {url}",
+  "home.demoData": "Demo-datuak (backendik gabe)",
+
+  "hits.sortDistance": "Distantzia",
+  "hits.sortSeverity": "Larritasuna",
+  "hits.stale": "Berretsi gabe • {age} datua",
+  "hits.nearby": "Gertu, baina zure ibilbidetik kanpo",
+
+  "field.type": "Mota",
+  "field.cause": "Kausa",
+  "field.note": "Oharra",
+  "field.road": "Errepidea",
+  "field.pk": "KP",
+  "field.direction": "Norabidea",
+  "field.orientation": "Orientazioa",
+  "field.since": "Noiztik",
+  "field.province": "Probintzia",
+  "field.municipality": "Udalerria",
+  "field.source": "Iturria",
+  "source.user": "Gidari baten abisua",
+  "field.coords": "Koordenatuak",
+  "field.severity": "Larritasuna",
+  "field.feedback": "Berrespenak",
+
+  "map.summary": "{onRoute} zure ibilbidean • {nearby} gertu • {status}",
+  "map.noPosition": "Oraindik ez dago posiziorik",
+  "map.follow": "Nire kokapena jarraitu",
+  "map.selected": "{title}, {distance}ra",
+  "map.stale": " (berretsi gabe, {age})",
+  "map.webUnavailable": "Mapa ez dago erabilgarri webean",
+  "map.webIncidents": "Mapa ez dago erabilgarri webean ({count} gorabehera gertu)",
+  "map.webRoute": " ({count} puntuko ibilbidea)",
+
+  "trip.title": "Ibilbidea",
+  "trip.subtitle": "Zure bidaiako gorabehera guztiak, aurkituko dituzun ordenan",
+  "trip.originPlaceholder": "Jatorria (hutsik = nire kokapena)",
+  "trip.pickHint": "Eduki sakatuta mapa finkatzeko",
+  "trip.segments": "Zatiak (aukerakoa)",
+  "trip.search": "Bilatu gorabeherak",
+  "trip.count": "{count} gorabehera ibilbidean • hurbiltzean abisatuko dizugu",
+  "trip.none": "Ez dago gorabeherarik ibilbidean",
+  "trip.fromStart": "hasieratik {distance}ra",
+  "trip.placeNotFound": "Ez dut «{place}» aurkitzen",
+  "trip.badSegments": "Berrikusi zatiak: lerro bat zati bakoitzeko, adib. «A-6 10-40»",
+  "trip.needDestination": "Adierazi helmuga bat edo zatiren bat",
+  "trip.noLocation": "Ezin izan da zure kokapena lortu",
+
+  "roads.title": "Nire errepideak",
+  "roads.subtitle": "Gidatzen ez zaudenean ere zaintzen ditugun zatiak",
+  "roads.fromPk": "KP hasiera",
+  "roads.toPk": "KP amaiera",
+  "roads.directionPlaceholder": "Norabidea (aukerakoa): gorakorra, iparra…",
+  "roads.add": "Gehitu zatia",
+  "roads.remove": "Kendu",
+  "roads.lastCheck": "Azken egiaztapena: {age}",
+  "roads.neverChecked": "Egiaztatu gabe oraindik",
+  "roads.checkNow": "Egiaztatu orain",
+  "roads.noMatches": "Ez dago gorabeherarik zure zatietan",
+  "roads.notification": "Gorabehera: {where}",
+
+  "history.title": "Historia",
+  "history.subtitle": "Bidaia bakoitzean abisatutako gorabeherak",
+  "history.empty": "Oraindik ez dago bidaiarik. Gidatzeari uztean gordetzen dira.",
+  "history.noIncidents": "Ez dago gorabeherarik bidaia honetan",
+  "history.countOne": "Gorabehera 1",
+  "history.count": "{count} gorabehera",
+  "history.exportFailed": "Ezin izan da esportatu",
+  "history.tryAgain": "Saiatu berriro.",
+
+  "hud.stopped": "Gidatzea geldituta",
+  "hud.stop": "GELDITU",
+  "hud.stopLabel": "Gelditu gidatzea",
+  "hud.start": "HASI",
+  "hud.exit": "IRTEN",
+
+  "detail.title": "Gorabehera",
+  "detail.open": "Ikusi xehetasunak",
+  "detail.share": "Partekatu",
+  "detail.shareFailed": "Ezin izan da partekatu",
+  "detail.notFound": "Gorabehera hau ez dago aktibo.",
+  "detail.distance": "Zuregandik {distance}ra",
+  "share.since": "Noiztik: {since}",
+  "share.open": "Ireki TrafficAlert-en: {link}",
+
+  "settings.title": "Ezarpenak",
+  "settings.url": "Backendaren URLa",
+  "settings.urlHint": "Adibidez http://192.168.1.40:8080/api, edo mock: demo-datuetarako",
+  "settings.urlError": "http:// edo https:// hasiera izan behar du (edo mock: izan)",
+  "settings.demoData": "Demo-datuak",
+  "settings.datex": "DATEX II babeskopia",
+  "settings.datexHint":
+    "Zerbitzariak erantzuten ez badu, gorabeherak mugikorrean kalkulatzen dira DGTren DATEX II jariotik. Probetarako DATEX II fitxategi bat karga dezakezu haren ordez.",
+  "settings.datexFile": "{name}: {count} gorabehera",
+  "settings.datexInvalid": "Fitxategia ez da DATEX II egoera-argitalpen bat.",
+  "settings.datexLoad": "Kargatu DATEX II fitxategia",
+  "settings.datexClear": "Erabili DGTren jarioa",
+  "settings.test": "Probatu konexioa",
+  "settings.connected": "Konektatuta ({ms} ms)",
+  "settings.radius": "Bilaketa-erradioa (m)",
+  "settings.radiusError": "{min} eta {max} m artean",
+  "settings.interval": "Kontsulta-tartea (s)",
+  "settings.intervalError": "{min} eta {max} s artean",
+  "settings.thresholds": "Berriro abisatu (m)",
+  "settings.thresholdsHint": "Gorabehera baten abisua errepikatzeko distantziak, komaz bereizita",
+  "settings.thresholdsError": "Gehienez 5 distantzia, {min} eta {max} m artean",
+  "settings.alertMode": "Abisua",
+  "settings.beep": "Txistua",
+  "settings.voice": "Ahotsa",
+  "settings.both": "Biak",
+  "settings.streaming": "Denbora errealean",
+  "settings.streamingHint":
+    "Jaso gorabeherak berehala WebSocket bidez. Etenez gero, tarte bakoitzean kontsultatuko da berriro.",
+  "settings.minSeverity": "Gutxieneko larritasuna",
+  "settings.allSeverities": "Guztiak",
+  "settings.filtersHint":
+    "Hasieran ikusten duzunari eta abisuei aplikatzen zaie. «Beti» aukerak kategoria horretaz abisatzen du, larritasuna edozein dela ere.",
+  "settings.ruleDefault": "Arrunta",
+  "settings.ruleIgnore": "Ez ikusi",
+  "settings.ruleAlways": "Beti",
+  "settings.vibration": "Bibrazioa",
+  "settings.vibrationHint": "Gorabehera mota bakoitzak bere bibrazio- eta txistu-eredua du.",
+  "settings.language": "Hizkuntza",
+  "settings.languageSystem": "Sistema",
+  "settings.save": "Gorde",
+  "settings.saved": "Gordeta",
+  "settings.defaults": "Balio lehenetsiak",
+
+  "simulate.title": "Gidatze simulatua",
+  "simulate.subtitle":
+    "Garatzaile modua: GPX edo JSON arrasto bat erreproduzitzen du GPSaren ordez. Alertek, distantziek eta soinuek gidatzean bezala funtzionatzen dute.",
+  "simulate.pickFile": "Kargatu GPX edo JSON",
+  "simulate.recorded": "Grabatutako bidaiak",
+  "simulate.points": "{count} puntu • {duration}",
+  "simulate.speed": "Abiadura",
+  "simulate.start": "Hasi simulazioa",
+  "simulate.stop": "Gelditu simulazioa",
+  "simulate.invalid": "Ezin izan da arrastoa irakurri",
+  "simulate.invalidHint":
+    "Track puntuak dituen GPX bat edo gutxienez bi posizio dituen JSON bat behar da.",
+  "simulate.banner": "SIMULAZIOA • {name} • {speed}× • %{progress}",
+  "simulate.position": "Posizio simulatua",
+  "simulate.badge": "SIMULAZIOA {speed}×",
+  "report.title": "Gorabehera baten berri eman",
+  "report.where": "Zure kokapena",
+  "report.kind": "Zer dago?",
+  "report.kind.accident": "Istripua",
+  "report.kind.object": "Objektua galtzadan",
+  "report.kind.animal": "Animalia askea",
+  "report.kind.jam": "Auto-ilara",
+  "report.kind.weather": "Eguraldia",
+  "report.note": "Oharra (aukerakoa)",
+  "report.notePlaceholder": "Adib.: eskuineko erreia",
+  "report.send": "Abisua bidali",
+  "report.sent": "Abisua bidalita. Eskerrik asko!",
+  "report.queued": "Konexiorik gabe: abisua gorde dugu eta ahal bezain laster bidaliko dugu.",
+  "report.pending": "{count} abisu bidaltzeko zain",
+  "report.simulated": "Simulazio batean, demo-datuekin bakarrik abisa daiteke.",
+  "feedback.question": "Hor jarraitzen du?",
+  "feedback.spoken": "{what}: hor jarraitzen du?",
+  "feedback.yes": "Bai, hor dago",
+  "feedback.no": "Ez, ez dago",
+  "feedback.dismiss": "Ez ikusi egin",
+  "feedback.cleared": "{count} gidarik diote ez dagoela",
+  "feedback.counts": "{yes} hor dago • {no} ez dago",
+
+  "category.accident": "Istripuak",
+  "category.closure": "Itxierak",
+  "category.obstacle": "Oztopoak",
+  "category.weather": "Eguraldia",
+  "category.congestion": "Auto-ilarak",
+  "category.roadworks": "Obrak",
+  "category.other": "Besteak",
+
+  "format.pk": "KP {pk}",
+  "direction.increasing": "Gorakorra (KPa gorantz)",
+  "direction.decreasing": "Beherakorra (KPa beherantz)",
+  "direction.both": "Bi noranzkoak",
+  "orientation.north": "Iparralderantz",
+  "orientation.northEast": "Ipar-ekialderantz",
+  "orientation.east": "Ekialderantz",
+  "orientation.southEast": "Hego-ekialderantz",
+  "orientation.south": "Hegoalderantz",
+  "orientation.southWest": "Hego-mendebalderantz",
+  "orientation.west": "Mendebalderantz",
+  "orientation.northWest": "Ipar-mendebalderantz",
+
+  "incident.accident": "Istripua",
+  "incident.closure": "Errepidea itxita",
+  "incident.obstacle": "Oztopoa galtzadan",
+  "incident.weather": "Eguraldi txarra",
+  "incident.congestion": "Auto-ilara",
+  "incident.roadworks": "Obrak",
+  "cause.fog": "Lainoa",
+  "cause.snow": "Elurra",
+  "cause.ice": "Izotza",
+  "cause.rain": "Euria",
+  "cause.wind": "Haizea",
+  "cause.animal": "Animalia galtzadan",
+  "cause.object": "Objektua galtzadan",
+  "cause.breakdown": "Ibilgailu matxuratua",
+
+  "background.title": "TrafficAlert • gidatzen",
+  "background.body": "Zure ibilbideko gorabeherak zaintzen",
+  "notifications.channel": "Trafiko-alertak",
+  "notifications.incidentAt": "Gorabehera {distance}ra",
+
+  "speech.on": "{what}, {road} errepidean",
+  "speech.pk": "{pk}. kilometro-puntua",
+  "speech.at": "{distance}ra",
+  "speech.meters": "{meters} metro",
+  "speech.oneKm": "kilometro 1",
+  "speech.km": "{km} kilometro",
+
+  "about.title": "Honi buruz",
+  "about.intro": "TrafficAlert-ek gidatzen duzun bitartean aurrean dituzun trafiko-gorabeherez abisatzen dizu.",
+  "about.drivingTitle": "Gidatzea",
+  "about.drivingBody":
+    "Sakatu «Hasi gidatzen» eta aplikazioak inguruko gorabeherak kontsultatuko ditu zure abiaduraren arabera. Zure errepidean eta zure norabidean daudenez bakarrik abisatzen dizu.",
+  "about.tripTitle": "Ibilbideak eta errepideak",
+  "about.tripBody":
+    "Planifikatu bidaia bat haren gorabeherak ordenan ikusteko, edo zaindu ohiko zatiak gidatzen ez zaudenean ere.",
+  "about.offlineTitle": "Konexiorik gabe",
+  "about.offlineBody":
+    "Estaldura galtzen baduzu, ezagutzen diren azken gorabeherak erabiltzen jarraituko dugu, berretsi gabe gisa markatuta.",
+  "about.dataTitle": "Datuak",
+  "about.dataBody": "Gorabeherak Ezarpenetan konfiguratutako backendetik datoz.",
+  "about.learnMore": "Informazio gehiago",
+};
@@ -0,0 +1,285 @@
+import type { Messages } from "@/i18n";
+
+export const gl: Messages = {
+  "common.incident": "Incidencia",
+  "common.delete": "Borrar",
+  "common.origin": "Orixe",
+  "common.destination": "Destino",
+
+  "tabs.home": "Inicio",
+  "tabs.map": "Mapa",
+  "tabs.trip": "Ruta",
+  "tabs.roads": "Estradas",
+  "tabs.history": "Historial",
+  "tabs.about": "Acerca de",
+
+  "status.ready": "Listo",
+  "status.locating": "Obtendo a localización…",
+  "status.querying": "Consultando incidencias…",
+  "status.noneNearby": "Sen incidencias próximas",
+  "status.noneOnRoute": "Sen incidencias na túa ruta",
+  "status.alert": "ALERTA",
+  "status.driving": "Condución activa",
+  "status.stopped": "Parado",
+  "permission.title": "Permiso necesario",
+  "permission.location": "Sen localización non hai alertas.",
+
+  "error.timeout": "O backend non responde (timeout)",
+  "error.server": "Backend {status}",
+  "error.malformed": "Resposta non válida do backend",
+  "error.network": "Sen conexión co backend",
+  "error.generic": "Erro ao consultar o backend",
+
+  "age.now": "agora",
+  "age.ago": "hai {duration}",
+  "age.in": "dentro de {duration}",
+  "duration.minutes": "{minutes} min",
+  "duration.hours": "{hours} h",
+  "duration.hoursMinutes": "{hours} h {minutes} min",
+  "duration.days": "{days} d",
+  "duration.daysHours": "{days} d {hours} h",
+
+  "home.subtitle": "MVP • alertas simples preto de ti",
+  "home.status": "Estado",
+  "home.offline": "Sen conexión: amósanse incidencias gardadas, poden estar desactualizadas",
+  "home.fallback": "Servidor sen resposta: incidencias directas da DGT (DATEX II)",
+  "home.onRoute": "Na túa ruta ({count})",
+  "home.radius": "raio {distance}",
+  "home.live": "En directo ({radius})",
+  "home.every": "Actualízase cada {seconds}s ({radius})",
+  "home.background": "{cadence}, tamén en segundo plano",
+  "home.foreground": "{cadence} mentres conduces",
+  "home.updating": "Actualizando…",
+  "home.start": "Iniciar condución",
+  "home.stop": "Deter",
+  "home.hud": "Pantalla de condución",
+  "home.report": "Avisar dunha incidencia",
+  "home.testNow": "Probar agora",
+  "home.backend": "Backend: {url}",
+  "home.demoData": "Datos de demostración (sen backend)",
+
+  "hits.sortDistance": "Distancia",
+  "hits.sortSeverity": "Gravidade",
+  "hits.stale": "Sen confirmar • dato de {age}",
+  "hits.nearby": "Preto, pero fóra da túa ruta",
+
+  "field.type": "Tipo",
+  "field.cause": "Causa",
+  "field.note": "Nota",
+  "field.road": "Estrada",
+  "field.pk": "PK",
+  "field.direction": "Sentido",
+  "field.orientation": "Orientación",
+  "field.since": "Desde",
+  "field.province": "Provincia",
+  "field.municipality": "Concello",
+  "field.source": "Fonte",
+  "source.user": "Aviso dun condutor",
+  "field.coords": "Coordenadas",
+  "field.severity": "Gravidade",
+  "field.feedback": "Confirmacións",
+
+  "map.summary": "{onRoute} na túa ruta • {nearby} preto • {status}",
+  "map.noPosition": "Aínda sen posición",
+  "map.follow": "Seguir a miña posición",
+  "map.selected": "{title} a {distance}",
+  "map.stale": " (sen confirmar, {age})",
+  "map.webUnavailable": "Mapa non dispoñible na web",
+  "map.webIncidents": "Mapa non dispoñible na web ({count} incidencias próximas)",
+  "map.webRoute": " (ruta de {count} puntos)",
+
+  "trip.title": "Ruta",
+  "trip.subtitle": "Todas as incidencias da túa viaxe, na orde en que as atoparás",
+  "trip.originPlaceholder": "Orixe (baleiro = a miña localización)",
+  "trip.pickHint": "Mantén premido o mapa para fixar",
+  "trip.segments": "Treitos (opcional)",
+  "trip.search": "Buscar incidencias",
+  "trip.count": "{count} incidencias na ruta • avisarémoste ao achegarte",
+  "trip.none": "Sen incidencias na ruta",
+  "trip.fromStart": "a {distance} do inicio",
+  "trip.placeNotFound": "Non atopo «{place}»",
+  "trip.badSegments": "Revisa os treitos: unha liña por treito, p. ex. «A-6 10-40»",
+  "trip.needDestination": "Indica un destino ou algún treito",
+  "trip.noLocation": "Non se puido obter a túa localización",
+
+  "roads.title": "As miñas estradas",
+  "roads.subtitle": "Treitos que vixiamos aínda que non esteas conducindo",
+  "roads.fromPk": "PK desde",
+  "roads.toPk": "PK ata",
+  "roads.directionPlaceholder": "Sentido (opcional): crecente, norte…",
+  "roads.add": "Engadir treito",
+  "roads.remove": "Quitar",
+  "roads.lastCheck": "Última comprobación {age}",
+  "roads.neverChecked": "Aínda sen comprobar",
+  "roads.checkNow": "Comprobar agora",
+  "roads.noMatches": "Sen incidencias nos teus treitos",
+  "roads.notification": "Incidencia na {where}",
+
+  "history.title": "Historial",
+  "history.subtitle": "Incidencias avisadas en cada viaxe",
+  "history.empty": "Aínda non hai viaxes. Gárdanse ao deter a condución.",
+  "history.noIncidents": "Sen incidencias nesta viaxe",
+  "history.countOne": "1 incidencia",
+  "history.count": "{count} incidencias",
+  "history.exportFailed": "Non se puido exportar",
+  "history.tryAgain": "Téntao de novo.",
+
+  "hud.stopped": "Condución detida",
+  "hud.stop": "DETER",
+  "hud.stopLabel": "Deter a condución",
+  "hud.start": "INICIAR",
+  "hud.exit": "SAÍR",
+
+  "detail.title": "Incidencia",
+  "detail.open": "Ver detalle",
+  "detail.share": "Compartir",
+  "detail.shareFailed": "Non se puido compartir",
+  "detail.notFound": "Esta incidencia xa non está activa.",
+  "detail.distance": "A {distance} de ti",
+  "share.since": "Desde {since}",
+  "share.open": "Ábrea en TrafficAlert: {link}",
+
+  "settings.title": "Axustes",
+  "settings.url": "URL do backend",
+  "settings.urlHint": "Por exemplo http://192.168.1.40:8080/api, ou mock: para datos de demostración",
+  "settings.urlError": "Debe comezar por http:// ou https:// (ou ser mock:)",
+  "settings.demoData": "Datos de demostración",
+  "settings.datex": "Respaldo DATEX II",
+  "settings.datexHint":
+    "Se o servidor non responde, as incidencias calcúlanse no móbil a partir do feed DATEX II da DGT. Para probas podes cargar un ficheiro DATEX II no seu lugar.",
+  "settings.datexFile": "{name}: {count} incidencias",
+  "settings.datexInvalid": "O ficheiro non é unha publicación de situacións DATEX II.",
+  "settings.datexLoad": "Cargar ficheiro DATEX II",
+  "settings.datexClear": "Usar o feed da DGT",
+  "settings.test": "Probar conexión",
+  "settings.connected": "Conectado ({ms} ms)",
+  "settings.radius": "Raio de busca (m)",
+  "settings.radiusError": "Entre {min} e {max} m",
+  "settings.interval": "Intervalo de consulta (s)",
+  "settings.intervalError": "Entre {min} e {max} s",
+  "settings.thresholds": "Avisar de novo a (m)",
+  "settings.thresholdsHint": "Distancias ás que se repite o aviso dunha incidencia, separadas por comas",
+  "settings.thresholdsError": "Ata 5 distancias entre {min} e {max} m",
+  "settings.alertMode": "Aviso",
+  "settings.beep": "Pitido",
+  "settings.voice": "Voz",
+  "settings.both": "Ambos",
+  "settings.streaming": "Tempo real",
+  "settings.streamingHint":
+    "Recibe incidencias ao instante por WebSocket. Se se corta, volve consultar en cada intervalo.",
+  "settings.minSeverity": "Gravidade mínima",
+  "settings.allSeverities": "Todas",
+  "settings.filtersHint":
+    "Aplícase ao que ves en Inicio e aos avisos. «Sempre» avisa desa categoría sexa cal sexa a súa gravidade.",
+  "settings.ruleDefault": "Normal",
+  "settings.ruleIgnore": "Ignorar",
+  "settings.ruleAlways": "Sempre",
+  "settings.vibration": "Vibración",
+  "settings.vibrationHint": "Cada tipo de incidencia ten o seu propio padrón de vibración e de pitido.",
+  "settings.language": "Idioma",
+  "settings.languageSystem": "Sistema",
+  "settings.save": "Gardar",
+  "settings.saved": "Gardado",
+  "settings.defaults": "Valores predeterminados",
+
+  "simulate.title": "Condución simulada",
+  "simulate.subtitle":
+    "Modo desenvolvedor: reproduce unha traza GPX ou JSON no canto do GPS. As alertas, distancias e sons funcionan igual que conducindo.",
+  "simulate.pickFile": "Cargar GPX ou JSON",
+  "simulate.recorded": "Viaxes gravadas",
+  "simulate.points": "{count} puntos • {duration}",
+  "simulate.speed": "Velocidade",
+  "simulate.start": "Iniciar simulación",
+  "simulate.stop": "Deter simulación",
+  "simulate.invalid": "Non se puido ler a traza",
+  "simulate.invalidHint":
+    "Cómpre un GPX con puntos de track ou un JSON con polo menos dúas posicións.",
+  "simulate.banner": "SIMULACIÓN • {name} • {speed}× • {progress} %",
+  "simulate.position": "Posición simulada",
+  "simulate.badge": "SIMULACIÓN {speed}×",
+  "report.title": "Avisar dunha incidencia",
+  "report.where": "A túa posición",
+  "report.kind": "Que hai?",
+  "report.kind.accident": "Accidente",
+  "report.kind.object": "Obxecto na calzada",
+  "report.kind.animal": "Animal solto",
+  "report.kind.jam": "Atasco",
+  "report.kind.weather": "Meteoroloxía",
+  "report.note": "Nota (opcional)",
+  "report.notePlaceholder": "Ex.: carril dereito",
+  "report.send": "Enviar aviso",
+  "report.sent": "Aviso enviado. Grazas!",
+  "report.queued": "Sen conexión: gardamos o aviso e enviarémolo en canto se poida.",
+  "report.pending": "{count} avisos pendentes de enviar",
+  "report.simulated": "Durante unha simulación só se pode avisar cos datos de demostración.",
+  "feedback.question": "Segue aí?",
+  "feedback.spoken": "{what}: segue aí?",
+  "feedback.yes": "Si, segue",
+  "feedback.no": "Non, xa non está",
+  "feedback.dismiss": "Ignorar",
+  "feedback.cleared": "{count} condutores din que xa non está",
+  "feedback.counts": "{yes} segue • {no} xa non está",
+
+  "category.accident": "Accidentes",
+  "category.closure": "Cortes",
+  "category.obstacle": "Obstáculos",
+  "category.weather": "Meteoroloxía",
+  "category.congestion": "Retencións",
+  "category.roadworks": "Obras",
+  "category.other": "Outras",
+
+  "format.pk": "PK {pk}",
+  "direction.increasing": "Crecente (PK en aumento)",
+  "direction.decreasing": "Decrecente (PK en descenso)",
+  "direction.both": "Ambos os sentidos",
+  "orientation.north": "Cara ao norte",
+  "orientation.northEast": "Cara ao nordeste",
+  "orientation.east": "Cara ao leste",
+  "orientation.southEast": "Cara ao sueste",
+  "orientation.south": "Cara ao sur",
+  "orientation.southWest": "Cara ao suroeste",
+  "orientation.west": "Cara ao oeste",
+  "orientation.northWest": "Cara ao noroeste",
+
+  "incident.accident": "Accidente",
+  "incident.closure": "Estrada cortada",
+  "incident.obstacle": "Obstáculo na calzada",
+  "incident.weather": "Meteoroloxía adversa",
+  "incident.congestion": "Retención",
+  "incident.roadworks": "Obras",
+  "cause.fog": "Néboa",
+  "cause.snow": "Neve",
+  "cause.ice": "Xeo",
+  "cause.rain": "Choiva",
+  "cause.wind": "Vento",
+  "cause.animal": "Animal na calzada",
+  "cause.object": "Obxecto na calzada",
+  "cause.breakdown": "Vehículo avariado",
+
+  "background.title": "TrafficAlert • condución activa",
+  "background.body": "Vixiando incidencias na túa ruta",
+  "notifications.channel": "Alertas de tráfico",
+  "notifications.incidentAt": "Incidencia a {distance}",
+
+  "speech.on": "{what} na {road}",
+  "speech.pk": "punto quilométrico {pk}",
+  "speech.at": "a {distance}",
+  "speech.meters": "{meters} metros",
+  "speech.oneKm": "1 quilómetro",
+  "speech.km": "{km} quilómetros",
+
+  "about.title": "Acerca de",
+  "about.intro": "TrafficAlert avísate das incidencias de tráfico que tes por diante mentres conduces.",
+  "about.drivingTitle": "Condución",
+  "about.drivingBody":
+    "Preme «Iniciar condución» e a app consultará as incidencias próximas segundo a túa velocidade. Só te avisa das que están na túa estrada e no teu sentido.",
+  "about.tripTitle": "Rutas e estradas",
+  "about.tripBody":
+    "Planifica unha viaxe para ver as súas incidencias en orde, ou vixía os teus treitos habituais aínda que non esteas conducindo.",
+  "about.offlineTitle": "Sen conexión",
+  "about.offlineBody":
+    "Se perdes a cobertura seguimos usando as últimas incidencias coñecidas, marcadas como sen confirmar.",
+  "about.dataTitle": "Datos",
+  "about.dataBody": "As incidencias proceden do backend configurado en Axustes.",
+  "about.learnMore": "Máis información",
+};
@@ -0,0 +1,93 @@
+import { getLocales } from "expo-localization";
+
+import { ca } from "@/i18n/ca";
+import { en } from "@/i18n/en";
+import { es } from "@/i18n/es";
+import { eu } from "@/i18n/eu";
+import { gl } from "@/i18n/gl";
+
+export type Locale = "es" | "en" | "ca" | "gl" | "eu";
+
+/** "system" follows the device language. */
+export type LanguagePreference = "system" | Locale;
+
+export type MessageKey = keyof typeof es;
+export type Messages = Record<MessageKey, string>;
+
+type Params = Record<string, string | number>;
+
+export const LOCALES: Locale[] = ["es", "en", "ca", "gl", "eu"];
+
+/** Each language in its own name, for the language picker. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: "Español",
+  en: "English",
+  ca: "Català",
+  gl: "Galego",
+  eu: "Euskara",
+};
+
+/** BCP 47 tags for Intl formatting and text-to-speech. */
+export const LANGUAGE_TAGS: Record<Locale, string> = {
+  es: "es-ES",
+  en: "en-GB",
+  ca: "ca-ES",
+  gl: "gl-ES",
+  eu: "eu-ES",
+};
+
+const CATALOGS: Record<Locale, Messages> = { es, en, ca, gl, eu };
+
+/** First device language we have a catalog for; Spanish otherwise. */
+export function deviceLocale(): Locale {
+  for (const { languageCode } of getLocales()) {
+    const match = LOCALES.find((l) => l === languageCode);
+    if (match) return match;
+  }
+  return "es";
+}
+
+export function resolveLocale(preference: LanguagePreference): Locale {
+  return preference === "system" ? deviceLocale() : preference;
+}
+
+// Idioma activo para el código fuera de React (tareas en segundo plano, estados).
+let current: Locale = deviceLocale();
+
+export function setLocale(locale: Locale) {
+  current = locale;
+}
+
+export function getLocale() {
+  return current;
+}
+
+export function translate(locale: Locale, key: MessageKey, params?: Params) {
+  const template = CATALOGS[locale][key] ?? es[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/** `translate` in the active language. */
+export function tr(key: MessageKey, params?: Params) {
+  return translate(current, key, params);
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(LANGUAGE_TAGS[current], options).format(value);
+}
+
+/**
+ * Date and time in the active language. Values that don't parse as a date
+ * are returned unchanged.
+ */
+export function formatDateTime(value: string | number, options?: Intl.DateTimeFormatOptions) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return new Intl.DateTimeFormat(
+    LANGUAGE_TAGS[current],
+    options ?? { dateStyle: "medium", timeStyle: "short" }
+  ).format(date);
+}
@@ -0,0 +1,330 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the TrafficAlert backend, for development.
+ *
+ * - GET /api/alerts?lat=..&lon=..&radiusMeters=..  -> AlertHit[] (polling)
+ * - GET /api/alerts/:id                            -> AlertEvent (404 once cleared)
+ * - POST /api/alerts/route {polyline, segments}      -> AlertEvent[] along a trip
+ * - POST /api/alerts/:id/feedback {stillThere}       -> AlertEvent with updated counts
+ * - POST /api/reports {id, kind, lat, lon, ...}      -> AlertEvent created from a report
+ * - WS  /api/alerts/stream                         -> real-time incidents
+ *
+ * The stream expects `{ "type": "subscribe", "lat", "lon", "radiusMeters" }`
+ * and answers with a `snapshot` of the incidents in range, followed by
+ * `incident.created` / `incident.updated` / `incident.cleared` messages as the
+ * simulated incidents evolve.
+ *
+ * Incidents are generated around the first position a client asks about.
+ *
+ * Usage: npm run mock-server  (PORT defaults to 8080)
+ * then point the app at http://<your-ip>:8080/api in Ajustes.
+ */
+
+const http = require("http");
+const { WebSocketServer } = require("ws");
+
+const PORT = Number(process.env.PORT) || 8080;
+const TICK_MS = Number(process.env.MOCK_TICK_MS) || 10000;
+const SPREAD_METERS = 3000;
+
+const TYPES = [
+  { type: "ACCIDENT", cause: "accidente", title: "Accidente" },
+  { type: "ROADWORKS", cause: "obras", title: "Obras" },
+  { type: "CONGESTION", cause: "retención", title: "Retención" },
+  { type: "OBSTACLE", cause: "obstáculo en calzada", title: "Obstáculo" },
+  { type: "WEATHER", cause: "niebla", title: "Niebla" },
+];
+const ROADS = ["A-6", "M-30", "AP-7", "N-II"];
+const ORIENTATIONS = ["NORTE", "SUR", "ESTE", "OESTE"];
+const REPORT_KINDS = {
+  accident: { type: "ACCIDENT", cause: "accidente" },
+  object: { type: "OBSTACLE", cause: "objeto en calzada" },
+  animal: { type: "OBSTACLE", cause: "animal en calzada" },
+  jam: { type: "CONGESTION", cause: "retención" },
+  weather: { type: "WEATHER", cause: "meteorología adversa" },
+};
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SO", "O", "NO"];
+
+/** @type {Map<string, any>} */
+const incidents = new Map();
+/** report id -> incident id, so a retried report isn't created twice */
+const reports = new Map();
+let center = null;
+let nextId = 1;
+
+function haversineMeters(aLat, aLon, bLat, bLon) {
+  const toRad = (d) => (d * Math.PI) / 180;
+  const dLat = toRad(bLat - aLat);
+  const dLon = toRad(bLon - aLon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+const pick = (list) => list[Math.floor(Math.random() * list.length)];
+
+function randomIncident() {
+  const kind = pick(TYPES);
+  const angle = Math.random() * 2 * Math.PI;
+  const dist = Math.random() * SPREAD_METERS;
+  const pkKm = Math.round(Math.random() * 3000) / 10;
+  return {
+    id: `mock-${nextId++}`,
+    type: kind.type,
+    title: kind.title,
+    cause: kind.cause,
+    road: pick(ROADS),
+    pkKm,
+    pkText: String(pkKm).replace(".", ","),
+    orientation: pick(ORIENTATIONS),
+    direction: Math.random() < 0.5 ? "creciente" : "decreciente",
+    province: "Madrid",
+    startTime: new Date().toISOString(),
+    source: "mock",
+    lat: center.lat + (dist * Math.cos(angle)) / 111320,
+    lon:
+      center.lon +
+      (dist * Math.sin(angle)) / (111320 * Math.cos((center.lat * Math.PI) / 180)),
+    severity: 1 + Math.floor(Math.random() * 5),
+  };
+}
+
+function ensureCenter(lat, lon) {
+  if (center) return;
+  center = { lat, lon };
+  for (let i = 0; i < 4; i++) {
+    const incident = randomIncident();
+    incidents.set(incident.id, incident);
+  }
+  console.log(`Generated incidents around ${lat.toFixed(5)}, ${lon.toFixed(5)}`);
+}
+
+function inRange(incident, query) {
+  return (
+    haversineMeters(query.lat, query.lon, incident.lat, incident.lon) <= query.radiusMeters
+  );
+}
+
+function parseQuery(source) {
+  const lat = Number(source.lat);
+  const lon = Number(source.lon);
+  const radiusMeters = Number(source.radiusMeters) || 2000;
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  return { lat, lon, radiusMeters };
+}
+
+function onRoute(incident, { polyline = [], segments = [], corridorMeters = 200 }) {
+  const nearPolyline = polyline.some(
+    (p) => haversineMeters(p.lat, p.lon, incident.lat, incident.lon) <= corridorMeters
+  );
+  const inSegment = segments.some(
+    (s) =>
+      s.road === incident.road &&
+      incident.pkKm >= Math.min(s.fromPk, s.toPk) &&
+      incident.pkKm <= Math.max(s.fromPk, s.toPk)
+  );
+  return nearPolyline || inSegment;
+}
+
+function handleRoute(req, res) {
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    const first = body.polyline?.[0];
+    if (first) ensureCenter(first.lat, first.lon);
+    const events = [...incidents.values()].filter((i) => onRoute(i, body));
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(events));
+  });
+}
+
+function handleFeedback(req, res, id) {
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    const incident = incidents.get(id);
+    if (!incident) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (typeof body.stillThere !== "boolean") {
+      res.writeHead(400).end();
+      return;
+    }
+    const key = body.stillThere ? "confirmedCount" : "clearedCount";
+    incident[key] = (incident[key] ?? 0) + 1;
+    broadcast({ type: "incident.updated", event: incident }, incident);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(incident));
+  });
+}
+
+function handleReport(req, res) {
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    const kind = REPORT_KINDS[body.kind];
+    const query = parseQuery({ ...body, radiusMeters: 1 });
+    if (typeof body.id !== "string" || !kind || !query) {
+      res.writeHead(400).end();
+      return;
+    }
+    ensureCenter(query.lat, query.lon);
+
+    let incident = incidents.get(reports.get(body.id));
+    if (!incident) {
+      const heading = typeof body.heading === "number" && body.heading >= 0 ? body.heading : null;
+      incident = {
+        id: `report-${nextId++}`,
+        ...kind,
+        note: typeof body.note === "string" ? body.note : undefined,
+        road: body.road ?? undefined,
+        orientation: heading === null ? undefined : COMPASS_POINTS[Math.round(heading / 45) % 8],
+        startTime: body.createdAt ?? new Date().toISOString(),
+        source: "user",
+        lat: query.lat,
+        lon: query.lon,
+      };
+      incidents.set(incident.id, incident);
+      reports.set(body.id, incident.id);
+      broadcast({ type: "incident.created", event: incident }, incident);
+      console.log(`Report ${body.kind} at ${query.lat.toFixed(5)}, ${query.lon.toFixed(5)}`);
+    }
+    res.writeHead(201, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(incident));
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === "POST" && url.pathname === "/api/alerts/route") {
+    handleRoute(req, res);
+    return;
+  }
+  const feedback = url.pathname.match(/^\/api\/alerts\/([^/]+)\/feedback$/);
+  if (req.method === "POST" && feedback) {
+    handleFeedback(req, res, decodeURIComponent(feedback[1]));
+    return;
+  }
+  if (req.method === "POST" && url.pathname === "/api/reports") {
+    handleReport(req, res);
+    return;
+  }
+  const byId = url.pathname.match(/^\/api\/alerts\/([^/]+)$/);
+  if (req.method === "GET" && byId && byId[1] !== "stream") {
+    const incident = incidents.get(decodeURIComponent(byId[1]));
+    if (!incident) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(incident));
+    return;
+  }
+  if (req.method !== "GET" || url.pathname !== "/api/alerts") {
+    res.writeHead(404).end();
+    return;
+  }
+  const query = parseQuery(Object.fromEntries(url.searchParams));
+  if (!query) {
+    res.writeHead(400).end();
+    return;
+  }
+  ensureCenter(query.lat, query.lon);
+
+  const hits = [...incidents.values()]
+    .map((event) => ({
+      event,
+      distanceMeters: haversineMeters(query.lat, query.lon, event.lat, event.lon),
+    }))
+    .filter((hit) => hit.distanceMeters <= query.radiusMeters)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(hits));
+});
+
+const wss = new WebSocketServer({ server, path: "/api/alerts/stream" });
+
+/** @type {Map<import("ws").WebSocket, {lat: number, lon: number, radiusMeters: number}>} */
+const subscriptions = new Map();
+
+function send(ws, message) {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+}
+
+wss.on("connection", (ws) => {
+  ws.on("message", (data) => {
+    let msg;
+    try {
+      msg = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (msg.type !== "subscribe") return;
+    const query = parseQuery(msg);
+    if (!query) return;
+    ensureCenter(query.lat, query.lon);
+    subscriptions.set(ws, query);
+    send(ws, {
+      type: "snapshot",
+      events: [...incidents.values()].filter((i) => inRange(i, query)),
+    });
+  });
+  ws.on("close", () => subscriptions.delete(ws));
+});
+
+function broadcast(message, incident) {
+  for (const [ws, query] of subscriptions) {
+    if (inRange(incident, query)) send(ws, message);
+  }
+}
+
+// Evolución simulada: aparecen, cambian y se despejan incidencias.
+setInterval(() => {
+  if (!center) return;
+  const roll = Math.random();
+  const existing = [...incidents.values()];
+
+  if (roll < 0.4 || existing.length === 0) {
+    const incident = randomIncident();
+    incidents.set(incident.id, incident);
+    broadcast({ type: "incident.created", event: incident }, incident);
+  } else if (roll < 0.8) {
+    const incident = pick(existing);
+    incident.severity = 1 + Math.floor(Math.random() * 5);
+    broadcast({ type: "incident.updated", event: incident }, incident);
+  } else {
+    const incident = pick(existing);
+    incidents.delete(incident.id);
+    broadcast({ type: "incident.cleared", id: incident.id }, incident);
+  }
+}, TICK_MS);
+
+server.listen(PORT, () => {
+  console.log(`Mock backend on http://localhost:${PORT}/api`);
+  console.log(`Incident stream on ws://localhost:${PORT}/api/alerts/stream`);
+});
@@ -0,0 +1,110 @@
+import { AppState } from "react-native";
+import * as Location from "expo-location";
+import * as TaskManager from "expo-task-manager";
+
+import { getAlerts } from "@/api/alerts";
+import { loadSettings } from "@/hooks/use-settings";
+import { resolveLocale, setLocale, tr } from "@/i18n";
+import type { AlertHit } from "@/types/alerts";
+import { planPolling } from "@/utils/adaptive-polling";
+import { trackAlerts, type AlertMemory } from "@/utils/alert-tracker";
+import { incidentLabel } from "@/utils/format";
+import { formatDistance } from "@/utils/hits";
+import { guessCurrentRoad } from "@/utils/location";
+import { notifyIncident, prepareNotifications } from "@/utils/notifications";
+import { filterHits } from "@/utils/incident-filter";
+import { classifyHits, isBehind } from "@/utils/route-filter";
+import { buildAnnouncement } from "@/utils/speech";
+
+export const DRIVING_LOCATION_TASK = "trafficalert-driving-location";
+
+// Vive mientras el proceso JS siga vivo en segundo plano.
+let announced: AlertMemory = new Map();
+
+async function notifyHit(hit: AlertHit) {
+  const distance = formatDistance(hit.distanceMeters);
+  await notifyIncident(
+    `${incidentLabel(hit.event)} • ${tr("notifications.incidentAt", { distance })}`,
+    buildAnnouncement(hit),
+    hit.event.id
+  );
+}
+
+async function handleLocation(location: Location.LocationObject) {
+  // En primer plano ya avisa el bucle de DrivingProvider.
+  if (AppState.currentState === "active") return;
+
+  const { latitude, longitude, heading, speed } = location.coords;
+  const { backendUrl, radiusMeters, pollIntervalMs, filters, language, alertThresholds } =
+    await loadSettings();
+  // sin UI abierta nadie ha fijado el idioma todavía
+  setLocale(resolveLocale(language));
+  // el intervalo lo fija el sistema; del plan solo aprovechamos el radio
+  const plan = planPolling(speed, { intervalMs: pollIntervalMs, radiusMeters });
+  const result = await getAlerts(
+    { lat: latitude, lon: longitude, radiusMeters: plan.radiusMeters },
+    { baseUrl: backendUrl }
+  );
+  const road = result.length ? await guessCurrentRoad({ latitude, longitude }) : null;
+  const motion = { latitude, longitude, heading, speed, road };
+  const { onRoute, nearby } = classifyHits(result, motion);
+
+  const { memory, announce } = trackAlerts(
+    announced,
+    filterHits(onRoute, filters),
+    alertThresholds,
+    nearby.filter((hit) => !isBehind(hit, motion))
+  );
+  announced = memory;
+
+  for (const hit of announce) await notifyHit(hit);
+}
+
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+  DRIVING_LOCATION_TASK,
+  async ({ data, error }) => {
+    if (error || !data?.locations.length) return;
+    try {
+      // solo nos interesa la posición más reciente del lote
+      await handleLocation(data.locations[data.locations.length - 1]);
+    } catch {
+      // sin red en segundo plano: lo intentamos en la siguiente posición
+    }
+  }
+);
+
+/**
+ * Asks for background location + notification permissions and starts the
+ * location task with an Android foreground-service notification. Returns
+ * `false` if the user didn't grant background location.
+ */
+export async function startBackgroundDriving(pollIntervalMs: number) {
+  const bg = await Location.requestBackgroundPermissionsAsync();
+  if (bg.status !== "granted") return false;
+
+  await prepareNotifications();
+
+  announced = new Map();
+  await Location.startLocationUpdatesAsync(DRIVING_LOCATION_TASK, {
+    accuracy: Location.Accuracy.High,
+    timeInterval: pollIntervalMs,
+    distanceInterval: 200,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+    pausesUpdatesAutomatically: false,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: tr("background.title"),
+      notificationBody: tr("background.body"),
+      notificationColor: "#2563EB",
+      killServiceOnDestroy: true,
+    },
+  });
+  return true;
+}
+
+export async function stopBackgroundDriving() {
+  if (await TaskManager.isTaskRegisteredAsync(DRIVING_LOCATION_TASK)) {
+    await Location.stopLocationUpdatesAsync(DRIVING_LOCATION_TASK);
+  }
+  announced = new Map();
+}
@@ -0,0 +1,79 @@
+import * as BackgroundTask from "expo-background-task";
+import * as TaskManager from "expo-task-manager";
+
+import { getRouteAlerts } from "@/api/alerts";
+import { loadSettings } from "@/hooks/use-settings";
+import { resolveLocale, setLocale, tr } from "@/i18n";
+import { formatLocation, incidentLabel } from "@/utils/format";
+import { notifyIncident, prepareNotifications } from "@/utils/notifications";
+import {
+  loadSeenWatchIds,
+  loadWatchedRoads,
+  matchWatchedRoads,
+  saveLastWatchCheck,
+  saveSeenWatchIds,
+  type WatchCheck,
+} from "@/utils/watched-roads";
+
+export const WATCHED_ROADS_TASK = "trafficalert-watched-roads";
+
+// El sistema decide cuándo ejecutarla; esto es solo el mínimo entre ejecuciones.
+const MINIMUM_INTERVAL_MINUTES = 30;
+
+/**
+ * Queries the backend for incidents on the watched roads, stores the result
+ * and, with `notify`, shows a notification for each incident not seen before.
+ *
+ * @throws {ApiError} subclasses from `@/api/errors`
+ */
+export async function checkWatchedRoads({ notify }: { notify: boolean }): Promise<WatchCheck> {
+  const roads = await loadWatchedRoads();
+  if (!roads.length) {
+    const empty = { checkedAt: Date.now(), matches: [] };
+    await saveLastWatchCheck(empty);
+    return empty;
+  }
+
+  const { backendUrl, language } = await loadSettings();
+  setLocale(resolveLocale(language));
+  const events = await getRouteAlerts({ segments: roads }, { baseUrl: backendUrl });
+  const check = { checkedAt: Date.now(), matches: matchWatchedRoads(events, roads) };
+
+  const seen = new Set(await loadSeenWatchIds());
+  if (notify) {
+    for (const { event } of check.matches) {
+      if (seen.has(event.id)) continue;
+      const title = tr("roads.notification", { where: formatLocation(event, " ") });
+      await notifyIncident(title, incidentLabel(event), event.id);
+    }
+  }
+  // solo recordamos las vigentes: si reaparece una despejada, volvemos a avisar
+  await saveSeenWatchIds(check.matches.map((m) => m.event.id));
+  await saveLastWatchCheck(check);
+  return check;
+}
+
+TaskManager.defineTask(WATCHED_ROADS_TASK, async () => {
+  try {
+    await checkWatchedRoads({ notify: true });
+    return BackgroundTask.BackgroundTaskResult.Success;
+  } catch {
+    return BackgroundTask.BackgroundTaskResult.Failed;
+  }
+});
+
+/**
+ * Registers the periodic check when there is something to watch and
+ * unregisters it otherwise.
+ */
+export async function syncWatchedRoadsTask(hasRoads: boolean) {
+  const registered = await TaskManager.isTaskRegisteredAsync(WATCHED_ROADS_TASK);
+  if (hasRoads && !registered) {
+    await prepareNotifications();
+    await BackgroundTask.registerTaskAsync(WATCHED_ROADS_TASK, {
+      minimumInterval: MINIMUM_INTERVAL_MINUTES,
+    });
+  } else if (!hasRoads && registered) {
+    await BackgroundTask.unregisterTaskAsync(WATCHED_ROADS_TASK);
+  }
+}
@@ -0,0 +1,61 @@
+export type AlertEvent = {
+  id: string;
+  type: string;
+
+  title?: string;
+  cause?: string;
+  /** driver's comment, on incidents reported from the app */
+  note?: string;
+
+  road?: string;
+  pkText?: string;
+  pkKm?: number;
+
+  direction?: string;
+  orientation?: string;
+
+  province?: string;
+  municipality?: string;
+
+  startTime?: string;
+  source?: string;
+
+  lat: number;
+  lon: number;
+  severity?: number;
+
+  /** drivers who answered "¿Sigue ahí?" with yes, as aggregated by the backend */
+  confirmedCount?: number;
+  /** drivers who answered that it's no longer there */
+  clearedCount?: number;
+};
+
+export type AlertHit = {
+  event: AlertEvent;
+  distanceMeters: number;
+  /**
+   * Only on hits computed locally from the offline cache: when the event was
+   * last received from the backend (ms since epoch).
+   */
+  staleSince?: number;
+};
+
+export type Coords = {
+  latitude: number;
+  longitude: number;
+};
+
+/** A stretch of road between two kilometre points, as the DGT feed uses them. */
+export type RoadSegment = {
+  road: string;
+  fromPk: number;
+  toPk: number;
+  direction?: string;
+};
+
+/** An event along a planned trip, with its position on the route. */
+export type PlannedIncident = {
+  event: AlertEvent;
+  /** meters from the trip start along the route, when we have a polyline */
+  alongMeters: number | null;
+};
@@ -0,0 +1,36 @@
+import { planPolling } from "@/utils/adaptive-polling";
+
+const BASE = { intervalMs: 30000, radiusMeters: 2000 };
+
+describe("planPolling", () => {
+  it("keeps the configured values when the speed is unknown", () => {
+    expect(planPolling(null, BASE)).toBe(BASE);
+    expect(planPolling(-1, BASE)).toBe(BASE);
+  });
+
+  it("polls 4× slower when parked and 2× slower in a jam", () => {
+    expect(planPolling(0, BASE)).toEqual({ intervalMs: 120000, radiusMeters: 2000 });
+    expect(planPolling(5, BASE)).toEqual({ intervalMs: 60000, radiusMeters: 2000 });
+  });
+
+  it("never polls less often than every two minutes", () => {
+    expect(planPolling(0, { ...BASE, intervalMs: 60000 }).intervalMs).toBe(120000);
+  });
+
+  it("widens the radius to ~90 s of driving at motorway speed", () => {
+    // 120 km/h
+    const plan = planPolling(33.3, BASE);
+    expect(plan.radiusMeters).toBe(2997);
+    // un cuarto del radio entre consultas: ~22 s
+    expect(plan.intervalMs).toBe(22500);
+  });
+
+  it("caps the radius and keeps the configured radius as a floor", () => {
+    expect(planPolling(200, BASE).radiusMeters).toBe(10000);
+    expect(planPolling(10, BASE).radiusMeters).toBe(2000);
+  });
+
+  it("never polls less often than configured while moving", () => {
+    expect(planPolling(10, BASE).intervalMs).toBe(30000);
+  });
+});
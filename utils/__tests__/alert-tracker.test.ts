@@ -0,0 +1,90 @@
+import type { AlertHit } from "@/types/alerts";
+import {
+  parseThresholds,
+  thresholdLevel,
+  trackAlerts,
+  type AlertMemory,
+} from "@/utils/alert-tracker";
+
+function hit(id: string, distanceMeters: number, severity?: number): AlertHit {
+  return {
+    event: { id, type: "ACCIDENT", lat: 40, lon: -3, severity },
+    distanceMeters,
+  };
+}
+
+describe("thresholdLevel", () => {
+  it("counts the thresholds the distance is within", () => {
+    expect(thresholdLevel(2500, [2000, 1000, 500])).toBe(0);
+    expect(thresholdLevel(2000, [2000, 1000, 500])).toBe(1);
+    expect(thresholdLevel(400, [2000, 1000, 500])).toBe(3);
+  });
+});
+
+describe("parseThresholds", () => {
+  it("reads distances farthest first, without repeats", () => {
+    expect(parseThresholds("500, 2000 1000;500")).toEqual([2000, 1000, 500]);
+  });
+
+  it("rejects empty, fractional, out-of-range or too many values", () => {
+    expect(parseThresholds(" ")).toBeNull();
+    expect(parseThresholds("1000, 2,5")).toBeNull();
+    expect(parseThresholds("10")).toBeNull();
+    expect(parseThresholds("100 200 300 400 500 600")).toBeNull();
+  });
+});
+
+describe("trackAlerts", () => {
+  it("announces an event once it is within the first threshold", () => {
+    const far = trackAlerts(new Map(), [hit("a", 3000)]);
+    expect(far.announce).toEqual([]);
+
+    const near = trackAlerts(far.memory, [hit("a", 1800)]);
+    expect(near.announce.map((h) => h.event.id)).toEqual(["a"]);
+  });
+
+  it("announces again only when crossing a closer threshold", () => {
+    let { memory } = trackAlerts(new Map(), [hit("a", 1800)]);
+
+    const same = trackAlerts(memory, [hit("a", 1500)]);
+    expect(same.announce).toEqual([]);
+    memory = same.memory;
+
+    const closer = trackAlerts(memory, [hit("a", 900)]);
+    expect(closer.announce).toHaveLength(1);
+  });
+
+  it("doesn't re-announce when GPS jitter moves it back out", () => {
+    const { memory } = trackAlerts(new Map(), [hit("a", 900)]);
+    const back = trackAlerts(memory, [hit("a", 1100)]);
+    const again = trackAlerts(back.memory, [hit("a", 950)]);
+    expect(back.announce).toEqual([]);
+    expect(again.announce).toEqual([]);
+  });
+
+  it("announces a severity change at any distance", () => {
+    const { memory } = trackAlerts(new Map(), [hit("a", 1800, 2)]);
+    expect(trackAlerts(memory, [hit("a", 1800, 4)]).announce).toHaveLength(1);
+  });
+
+  it("forgets events no longer on the route without mutating the memory", () => {
+    const memory: AlertMemory = new Map([["gone", { level: 2, severity: 3 }]]);
+    const next = trackAlerts(memory, [hit("a", 1800)]);
+    expect([...next.memory.keys()]).toEqual(["a"]);
+    expect(memory.has("gone")).toBe(true);
+  });
+
+  it("uses the thresholds it is given", () => {
+    const { announce } = trackAlerts(new Map(), [hit("a", 4000)], [5000]);
+    expect(announce).toHaveLength(1);
+  });
+
+  it("keeps events that left the route for now without announcing them again", () => {
+    const first = trackAlerts(new Map(), [hit("a", 900)]);
+    const offRoute = trackAlerts(first.memory, [], undefined, [hit("a", 880)]);
+    expect(offRoute.memory.get("a")).toEqual({ level: 2, severity: undefined });
+
+    const back = trackAlerts(offRoute.memory, [hit("a", 860)]);
+    expect(back.announce).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { setLocale } from "@/i18n";
+import { formatAge, formatDuration, pkKilometres } from "@/utils/format";
+
+const NOW = Date.parse("2026-05-01T10:00:00Z");
+const MINUTE = 60_000;
+
+beforeAll(() => setLocale("es"));
+
+describe("pkKilometres", () => {
+  const event = { id: "e", type: "ACCIDENT", lat: 40, lon: -3 };
+
+  it("prefers the numeric PK", () => {
+    expect(pkKilometres({ ...event, pkKm: 12.5, pkText: "99" })).toBe(12.5);
+  });
+
+  it("reads the DGT text forms", () => {
+    expect(pkKilometres({ ...event, pkText: "12+300" })).toBe(12.3);
+    expect(pkKilometres({ ...event, pkText: "12 + 5" })).toBe(12.5);
+    expect(pkKilometres({ ...event, pkText: "23,4" })).toBe(23.4);
+    expect(pkKilometres({ ...event, pkText: " 23.4 " })).toBe(23.4);
+  });
+
+  it("returns null when there is no usable PK", () => {
+    expect(pkKilometres(event)).toBeNull();
+    expect(pkKilometres({ ...event, pkText: "salida 12" })).toBeNull();
+  });
+});
+
+describe("formatDuration", () => {
+  it("uses the two largest units", () => {
+    expect(formatDuration(45 * MINUTE)).toBe("45 min");
+    expect(formatDuration(135 * MINUTE)).toBe("2 h 15 min");
+    expect(formatDuration(120 * MINUTE)).toBe("2 h");
+    expect(formatDuration((3 * 1440 + 4 * 60 + 10) * MINUTE)).toBe("3 d 4 h");
+  });
+});
+
+describe("formatAge", () => {
+  it("reads past and future timestamps", () => {
+    expect(formatAge(NOW - 30_000, NOW)).toBe("ahora");
+    expect(formatAge(NOW - 135 * MINUTE, NOW)).toBe("hace 2 h 15 min");
+    expect(formatAge(NOW + 3 * 1440 * MINUTE, NOW)).toBe("dentro de 3 d");
+  });
+});
@@ -0,0 +1,59 @@
+import type { AlertHit } from "@/types/alerts";
+import { hitsFromCache, mergeIntoCache, type IncidentCache } from "@/utils/incident-cache";
+
+const NOW = Date.parse("2026-05-01T10:00:00Z");
+const HOUR = 60 * 60 * 1000;
+const HERE = { latitude: 40, longitude: -3 };
+
+function hit(id: string, lat: number, distanceMeters = 0): AlertHit {
+  return { event: { id, type: "ACCIDENT", lat, lon: -3 }, distanceMeters };
+}
+
+describe("mergeIntoCache", () => {
+  // "inside" ~1 km al norte, "outside" ~11 km al norte
+  const cache: IncidentCache = {
+    inside: { event: hit("inside", 40.009).event, fetchedAt: NOW - HOUR },
+    outside: { event: hit("outside", 40.1).event, fetchedAt: NOW - HOUR },
+    expired: { event: hit("expired", 40.2).event, fetchedAt: NOW - 13 * HOUR },
+  };
+
+  it("drops cleared events inside the queried area and keeps the rest", () => {
+    const next = mergeIntoCache(cache, { ...HERE, radiusMeters: 5000 }, [hit("new", 40)], NOW);
+    expect(Object.keys(next).sort()).toEqual(["new", "outside"]);
+    expect(next.new.fetchedAt).toBe(NOW);
+    expect(next.outside).toBe(cache.outside);
+  });
+
+  it("refreshes events the backend returns again", () => {
+    const query = { ...HERE, radiusMeters: 5000 };
+    const next = mergeIntoCache(cache, query, [hit("inside", 40.009)], NOW);
+    expect(next.inside.fetchedAt).toBe(NOW);
+  });
+
+  it("keeps only the most recently fetched entries past the limit", () => {
+    const many: IncidentCache = {};
+    for (let i = 0; i < 300; i++) {
+      many[`old-${i}`] = { event: hit(`old-${i}`, 41).event, fetchedAt: NOW - HOUR - i };
+    }
+    const next = mergeIntoCache(many, { ...HERE, radiusMeters: 1000 }, [hit("new", 40)], NOW);
+    expect(Object.keys(next)).toHaveLength(300);
+    expect(next.new).toBeDefined();
+    expect(next["old-299"]).toBeUndefined();
+  });
+});
+
+describe("hitsFromCache", () => {
+  const cache: IncidentCache = {
+    far: { event: hit("far", 40.02).event, fetchedAt: NOW - HOUR },
+    near: { event: hit("near", 40.005).event, fetchedAt: NOW - 2 * HOUR },
+    out: { event: hit("out", 40.5).event, fetchedAt: NOW - HOUR },
+    expired: { event: hit("expired", 40.001).event, fetchedAt: NOW - 13 * HOUR },
+  };
+
+  it("returns the cached events in range, closest first and marked stale", () => {
+    const hits = hitsFromCache(cache, HERE, 5000, NOW);
+    expect(hits.map((h) => h.event.id)).toEqual(["near", "far"]);
+    expect(hits[0].distanceMeters).toBeCloseTo(556, -1);
+    expect(hits[0].staleSince).toBe(NOW - 2 * HOUR);
+  });
+});
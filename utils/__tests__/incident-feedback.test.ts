@@ -0,0 +1,42 @@
+import type { AlertEvent, AlertHit } from "@/types/alerts";
+import { clearedLast, isReportedCleared, passingHit } from "@/utils/incident-feedback";
+
+function hit(id: string, distanceMeters: number, fields: Partial<AlertEvent> = {}): AlertHit {
+  return { event: { id, type: "ACCIDENT", lat: 40, lon: -3, ...fields }, distanceMeters };
+}
+
+describe("passingHit", () => {
+  it("picks the closest hit being passed that wasn't asked about", () => {
+    const hits = [hit("a", 120), hit("b", 40), hit("c", 10), hit("d", 400)];
+    expect(passingHit(hits, new Set())?.event.id).toBe("c");
+    expect(passingHit(hits, new Set(["c"]))?.event.id).toBe("b");
+  });
+
+  it("returns null when nothing is close enough", () => {
+    expect(passingHit([hit("a", 151)], new Set())).toBeNull();
+    expect(passingHit([hit("a", 50)], new Set(["a"]))).toBeNull();
+  });
+});
+
+describe("isReportedCleared", () => {
+  it("needs several cleared answers, more than confirmations", () => {
+    const event = hit("a", 0).event;
+    expect(isReportedCleared(event)).toBe(false);
+    expect(isReportedCleared({ ...event, clearedCount: 1 })).toBe(false);
+    expect(isReportedCleared({ ...event, clearedCount: 2 })).toBe(true);
+    expect(isReportedCleared({ ...event, clearedCount: 2, confirmedCount: 2 })).toBe(false);
+    expect(isReportedCleared({ ...event, clearedCount: 3, confirmedCount: 2 })).toBe(true);
+  });
+});
+
+describe("clearedLast", () => {
+  it("moves reported-cleared hits to the end, otherwise keeping the order", () => {
+    const hits = [hit("a", 100, { clearedCount: 2 }), hit("b", 200), hit("c", 300)];
+    expect(clearedLast(hits).map((h) => h.event.id)).toEqual(["b", "c", "a"]);
+  });
+
+  it("returns the same array when nothing is cleared", () => {
+    const hits = [hit("a", 100), hit("b", 200)];
+    expect(clearedLast(hits)).toBe(hits);
+  });
+});
@@ -0,0 +1,59 @@
+import type { AlertEvent } from "@/types/alerts";
+import {
+  DEFAULT_ALERT_FILTERS,
+  categorize,
+  filterHits,
+  passesFilters,
+  type AlertFilters,
+} from "@/utils/incident-filter";
+
+function event(type: string, fields: Partial<AlertEvent> = {}): AlertEvent {
+  return { id: "e", type, lat: 40, lon: -3, ...fields };
+}
+
+describe("categorize", () => {
+  it("reads DGT types and Spanish causes, with or without accents", () => {
+    expect(categorize(event("ACCIDENT"))).toBe("accident");
+    expect(categorize(event("ROADWORKS"))).toBe("roadworks");
+    expect(categorize(event("OTHER", { cause: "Obstáculo en la vía" }))).toBe("obstacle");
+    expect(categorize(event("OTHER", { cause: "retención" }))).toBe("congestion");
+    expect(categorize(event("OTHER", { cause: "carril cortado" }))).toBe("closure");
+  });
+
+  it("falls back to other", () => {
+    expect(categorize(event("POLLUTION"))).toBe("other");
+  });
+});
+
+describe("passesFilters", () => {
+  const filters: AlertFilters = {
+    minSeverity: 3,
+    rules: { accident: "always", roadworks: "ignore" },
+  };
+
+  it("hides events below the minimum severity, unless it isn't known", () => {
+    expect(passesFilters(event("CONGESTION", { severity: 2 }), filters)).toBe(false);
+    expect(passesFilters(event("CONGESTION", { severity: 3 }), filters)).toBe(true);
+    expect(passesFilters(event("CONGESTION"), filters)).toBe(true);
+  });
+
+  it("lets category rules override the severity", () => {
+    expect(passesFilters(event("ACCIDENT", { severity: 1 }), filters)).toBe(true);
+    expect(passesFilters(event("ROADWORKS", { severity: 5 }), filters)).toBe(false);
+  });
+
+  it("shows everything by default", () => {
+    expect(passesFilters(event("ROADWORKS", { severity: 1 }), DEFAULT_ALERT_FILTERS)).toBe(true);
+  });
+});
+
+describe("filterHits", () => {
+  it("keeps the hits whose event passes", () => {
+    const hits = [
+      { event: event("ACCIDENT", { id: "a" }), distanceMeters: 100 },
+      { event: event("ROADWORKS", { id: "b" }), distanceMeters: 200 },
+    ];
+    const kept = filterHits(hits, { minSeverity: 0, rules: { roadworks: "ignore" } });
+    expect(kept.map((h) => h.event.id)).toEqual(["a"]);
+  });
+});
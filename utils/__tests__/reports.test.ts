@@ -0,0 +1,56 @@
+import { pruneReports, REPORT_TTL_MS, reportToEvent, type IncidentReport } from "@/utils/reports";
+
+const NOW = Date.parse("2026-05-01T10:00:00Z");
+
+function report(fields: Partial<IncidentReport> = {}): IncidentReport {
+  return {
+    id: "abc",
+    kind: "animal",
+    lat: 40.1,
+    lon: -3.2,
+    heading: 100,
+    speed: 25,
+    road: "A-6",
+    createdAt: new Date(NOW).toISOString(),
+    ...fields,
+  };
+}
+
+describe("reportToEvent", () => {
+  it("turns a report into the driver's own incident", () => {
+    expect(reportToEvent(report({ note: "un jabalí" }))).toEqual({
+      id: "user-abc",
+      type: "OBSTACLE",
+      cause: "animal en calzada",
+      note: "un jabalí",
+      road: "A-6",
+      orientation: "E",
+      startTime: "2026-05-01T10:00:00.000Z",
+      source: "user",
+      lat: 40.1,
+      lon: -3.2,
+    });
+  });
+
+  it("leaves out the orientation and road when they aren't known", () => {
+    const event = reportToEvent(report({ heading: null, road: null }));
+    expect(event.orientation).toBeUndefined();
+    expect(event.road).toBeUndefined();
+    expect(reportToEvent(report({ heading: 350 })).orientation).toBe("N");
+  });
+});
+
+describe("pruneReports", () => {
+  it("drops reports past their lifetime, sent or pending", () => {
+    const own = (id: string, ageMs: number, pending: boolean) => {
+      const r = report({ id, createdAt: new Date(NOW - ageMs).toISOString() });
+      return { report: r, event: reportToEvent(r), pending };
+    };
+    const reports = [
+      own("fresh", 60000, true),
+      own("old-sent", REPORT_TTL_MS, false),
+      own("old-pending", REPORT_TTL_MS + 1, true),
+    ];
+    expect(pruneReports(reports, NOW).map((r) => r.report.id)).toEqual(["fresh"]);
+  });
+});
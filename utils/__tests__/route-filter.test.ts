@@ -0,0 +1,59 @@
+import type { AlertHit } from "@/types/alerts";
+import { isBehind, isOnRoute, normalizeRoad, type Motion } from "@/utils/route-filter";
+
+describe("normalizeRoad", () => {
+  it("writes road codes the same way", () => {
+    expect(normalizeRoad("a6")).toBe("A-6");
+    expect(normalizeRoad("AP 7")).toBe("AP-7");
+    expect(normalizeRoad("Autovía del Noroeste A-6")).toBe("A-6");
+    expect(normalizeRoad("CV-500")).toBe("CV-500");
+  });
+
+  it("doesn't take street names for roads", () => {
+    expect(normalizeRoad("Avenida de la Paz 12")).toBeNull();
+    expect(normalizeRoad("Calle Mayor 3")).toBeNull();
+    expect(normalizeRoad(undefined)).toBeNull();
+  });
+});
+
+describe("isOnRoute", () => {
+  // incidencia ~1 km al norte, en la A-6
+  const hit: AlertHit = {
+    event: { id: "a", type: "ACCIDENT", lat: 40.009, lon: -3, road: "A-6" },
+    distanceMeters: 1000,
+  };
+  const motion: Motion = { latitude: 40, longitude: -3, heading: 0, speed: 25, road: "A-6" };
+
+  it("keeps incidents ahead on the same road", () => {
+    expect(isOnRoute(hit, motion)).toBe(true);
+  });
+
+  it("drops incidents on another road or behind", () => {
+    expect(isOnRoute(hit, { ...motion, road: "M-40" })).toBe(false);
+    expect(isOnRoute(hit, { ...motion, heading: 180 })).toBe(false);
+  });
+
+  it("keeps everything without a reliable heading, whatever the guessed road", () => {
+    expect(isOnRoute(hit, { ...motion, speed: 0.5, road: "M-40" })).toBe(true);
+    expect(isOnRoute(hit, { ...motion, heading: null, road: "M-40" })).toBe(true);
+  });
+});
+
+describe("isBehind", () => {
+  const hit: AlertHit = {
+    event: { id: "a", type: "ACCIDENT", lat: 40.009, lon: -3 },
+    distanceMeters: 1000,
+  };
+  const motion: Motion = { latitude: 40, longitude: -3, heading: 0, speed: 25 };
+
+  it("is true only once the incident is behind the car", () => {
+    expect(isBehind(hit, { ...motion, heading: 180 })).toBe(true);
+    // fuera del cono por delante, pero todavía no atrás
+    expect(isBehind(hit, { ...motion, heading: 80 })).toBe(false);
+  });
+
+  it("is never true without a reliable heading or right next to it", () => {
+    expect(isBehind(hit, { ...motion, heading: 180, speed: 0 })).toBe(false);
+    expect(isBehind({ ...hit, distanceMeters: 100 }, { ...motion, heading: 180 })).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import type { AlertEvent } from "@/types/alerts";
+import {
+  orderTripEvents,
+  parseSegments,
+  projectOnPolyline,
+  tripRouteCheck,
+} from "@/utils/route-plan";
+
+function event(id: string, fields: Partial<AlertEvent> = {}): AlertEvent {
+  return { id, type: "ACCIDENT", lat: 40, lon: -3, ...fields };
+}
+
+// ~11 km hacia el norte por el meridiano 3 O
+const POLYLINE = [
+  { latitude: 40, longitude: -3 },
+  { latitude: 40.1, longitude: -3 },
+];
+
+describe("parseSegments", () => {
+  it("reads one segment per line in the accepted formats", () => {
+    expect(parseSegments("A-6 10-40\nap7: 120,5 - 80\n\nM-30 3 12 norte")).toEqual([
+      { road: "A-6", fromPk: 10, toPk: 40, direction: undefined },
+      { road: "AP-7", fromPk: 120.5, toPk: 80, direction: undefined },
+      { road: "M-30", fromPk: 3, toPk: 12, direction: "norte" },
+    ]);
+  });
+
+  it("rejects the whole text if a line isn't a segment", () => {
+    expect(parseSegments("A-6 10-40\nde 10 a 40")).toBeNull();
+    expect(parseSegments("PAZ 12 10-40")).toBeNull();
+  });
+});
+
+describe("projectOnPolyline", () => {
+  it("measures along and off the route", () => {
+    const { alongMeters, offMeters } = projectOnPolyline(POLYLINE, {
+      latitude: 40.05,
+      longitude: -2.999,
+    });
+    expect(alongMeters).toBeCloseTo(5566, -1);
+    expect(offMeters).toBeCloseTo(85, -1);
+  });
+});
+
+describe("orderTripEvents", () => {
+  it("orders by segment and by PK in the segment's direction", () => {
+    const segments = parseSegments("A-6 40-10\nM-30 0-20")!;
+    const events = [
+      event("m30", { road: "M-30", pkKm: 5 }),
+      event("unplaced", { road: "N-1", pkKm: 1 }),
+      event("a6-near-end", { road: "A-6", pkKm: 12 }),
+      event("a6-text-pk", { road: "A-6", pkText: "35+500" }),
+    ];
+    const ordered = orderTripEvents(events, { segments }).map((i) => i.event.id);
+    expect(ordered).toEqual(["a6-text-pk", "a6-near-end", "m30", "unplaced"]);
+  });
+
+  it("orders by distance along the polyline when there is one", () => {
+    const events = [
+      event("far", { lat: 40.08 }),
+      event("near", { lat: 40.01 }),
+    ];
+    const ordered = orderTripEvents(events, { polyline: POLYLINE });
+    expect(ordered.map((i) => i.event.id)).toEqual(["near", "far"]);
+    expect(ordered[0].alongMeters).toBeCloseTo(1113, -1);
+  });
+});
+
+describe("tripRouteCheck", () => {
+  const incidents = orderTripEvents([event("a", { lat: 40.05 })], { polyline: POLYLINE });
+  const trip = { polyline: POLYLINE, incidents };
+
+  it("keeps trip events ahead and drops the ones already passed", () => {
+    expect(tripRouteCheck(trip, { latitude: 40.02, longitude: -3 })(incidents[0].event)).toBe(
+      true
+    );
+    expect(tripRouteCheck(trip, { latitude: 40.06, longitude: -3 })(incidents[0].event)).toBe(
+      false
+    );
+  });
+
+  it("leaves the decision to the heading filter off the route or for other events", () => {
+    const offRoute = tripRouteCheck(trip, { latitude: 40.02, longitude: -2.9 });
+    expect(offRoute(incidents[0].event)).toBeNull();
+    const onRoute = tripRouteCheck(trip, { latitude: 40.02, longitude: -3 });
+    expect(onRoute(event("other"))).toBeNull();
+    expect(tripRouteCheck(null, { latitude: 40, longitude: -3 })(event("a"))).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { setLocale } from "@/i18n";
+import { incidentLink, incidentSummary } from "@/utils/share";
+
+beforeAll(() => setLocale("es"));
+
+describe("incidentLink", () => {
+  it("opens the incident screen through the app scheme", () => {
+    expect(incidentLink("dgt-123")).toBe("dgtdemo://incident/dgt-123");
+  });
+
+  it("escapes ids that aren't URL-safe", () => {
+    expect(incidentLink("a/b c")).toBe("dgtdemo://incident/a%2Fb%20c");
+  });
+});
+
+describe("incidentSummary", () => {
+  it("lists what, where and the link, skipping what isn't known", () => {
+    const summary = incidentSummary({
+      id: "dgt-123",
+      type: "ACCIDENT",
+      lat: 40,
+      lon: -3,
+      road: "A-6",
+      pkKm: 23.4,
+    });
+    expect(summary.split("\n")).toEqual([
+      "Accidente",
+      "A-6 • PK 23,4",
+      "Ábrela en TrafficAlert: dgtdemo://incident/dgt-123",
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { InvalidTrackError, fixAt, parseTrack, trackTimeline } from "@/utils/track-replay";
+
+const GPX = `<?xml version="1.0"?>
+<gpx version="1.1">
+  <trk><trkseg>
+    <trkpt lat="40.0" lon="-3.0"><time>2026-05-01T08:00:00Z</time></trkpt>
+    <trkpt lat="40.01" lon="-3.0"><time>2026-05-01T08:01:00Z</time></trkpt>
+    <trkpt lat="91" lon="-3.0"/>
+  </trkseg></trk>
+</gpx>`;
+
+describe("parseTrack", () => {
+  it("reads GPX points with their times and skips invalid ones", () => {
+    const { name, points } = parseTrack("ida.gpx", GPX);
+    expect(name).toBe("ida.gpx");
+    expect(points).toEqual([
+      { latitude: 40, longitude: -3, time: Date.parse("2026-05-01T08:00:00Z") },
+      { latitude: 40.01, longitude: -3, time: Date.parse("2026-05-01T08:01:00Z") },
+    ]);
+  });
+
+  it("reads our trip export, plain point lists and GeoJSON", () => {
+    const trip = JSON.stringify({
+      track: [
+        { latitude: 40, longitude: -3, time: 1000 },
+        { latitude: 40.01, longitude: -3, time: 2000 },
+      ],
+    });
+    const plain = JSON.stringify([
+      { lat: 40, lng: -3 },
+      { lat: 40.01, lon: -3 },
+    ]);
+    const geojson = JSON.stringify({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: [[-3, 40], [-3, 40.01]] },
+    });
+    expect(parseTrack("a", trip).points[1]).toEqual({
+      latitude: 40.01,
+      longitude: -3,
+      time: 2000,
+    });
+    expect(parseTrack("b", plain).points).toHaveLength(2);
+    expect(parseTrack("c", geojson).points[0]).toMatchObject({ latitude: 40, longitude: -3 });
+  });
+
+  it("rejects files without two usable points", () => {
+    expect(() => parseTrack("x", "{")).toThrow(InvalidTrackError);
+    expect(() => parseTrack("x", "[]")).toThrow(InvalidTrackError);
+    expect(() => parseTrack("x", '<gpx><trkpt lat="40" lon="-3"/></gpx>')).toThrow(
+      InvalidTrackError
+    );
+  });
+});
+
+describe("trackTimeline", () => {
+  it("uses the recorded times when they increase", () => {
+    expect(trackTimeline(parseTrack("t", GPX).points)).toEqual([0, 60000]);
+  });
+
+  it("falls back to 50 km/h when times are missing or out of order", () => {
+    const points = [
+      { latitude: 40, longitude: -3, time: 5000 },
+      { latitude: 40.01, longitude: -3, time: 1000 },
+    ];
+    const [, offset] = trackTimeline(points);
+    // ~1112 m a 13,9 m/s
+    expect(offset).toBeCloseTo(80060, -3);
+  });
+});
+
+describe("fixAt", () => {
+  const { points } = parseTrack("t", GPX);
+  const timeline = trackTimeline(points);
+
+  it("interpolates the position with the stretch's heading and speed", () => {
+    const fix = fixAt(points, timeline, 30000)!;
+    expect(fix.coords.latitude).toBeCloseTo(40.005, 6);
+    expect(fix.coords.longitude).toBeCloseTo(-3, 6);
+    expect(fix.coords.heading).toBeCloseTo(0, 3);
+    expect(fix.coords.speed).toBeCloseTo(18.5, 1);
+    expect(fix.mocked).toBe(true);
+  });
+
+  it("returns null past the end of the track", () => {
+    expect(fixAt(points, timeline, 60000)).not.toBeNull();
+    expect(fixAt(points, timeline, 60001)).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import type { AlertHit } from "@/types/alerts";
+import {
+  recordHits,
+  recordPosition,
+  startTripLog,
+  tripToGpx,
+  type TrackPoint,
+} from "@/utils/trip-history";
+
+const NOW = Date.parse("2026-05-01T10:00:00Z");
+
+function hit(id: string, distanceMeters: number): AlertHit {
+  return {
+    event: { id, type: "ACCIDENT", lat: 40.5, lon: -3.9, road: "A-6", pkText: "25+300" },
+    distanceMeters,
+  };
+}
+
+describe("recordHits", () => {
+  const start = { latitude: 40.4, longitude: -3.9 };
+  const closer = { latitude: 40.45, longitude: -3.9 };
+
+  it("keeps when and where an incident was first seen and its closest approach", () => {
+    let log = recordHits(startTripLog(NOW), [hit("a", 2000)], start, NOW);
+    log = recordHits(log, [hit("a", 800), hit("b", 1500)], closer, NOW + 1000);
+    log = recordHits(log, [hit("a", 1200)], start, NOW + 2000);
+
+    expect(log.entries).toHaveLength(2);
+    expect(log.entries[0]).toMatchObject({
+      seenAt: NOW,
+      position: start,
+      minDistanceMeters: 800,
+      closestAt: closer,
+    });
+    expect(log.entries[1].seenAt).toBe(NOW + 1000);
+  });
+});
+
+describe("recordPosition", () => {
+  it("skips positions within a few metres of the last one", () => {
+    let log = recordPosition(startTripLog(NOW), { latitude: 40, longitude: -3 }, NOW);
+    // ~11 m y luego ~111 m
+    log = recordPosition(log, { latitude: 40.0001, longitude: -3 }, NOW + 1000);
+    log = recordPosition(log, { latitude: 40.001, longitude: -3 }, NOW + 2000);
+    expect(log.track.map((p) => p.time)).toEqual([NOW, NOW + 2000]);
+  });
+
+  it("keeps every other point once the track is full", () => {
+    const track: TrackPoint[] = Array.from({ length: 2000 }, (_, i) => ({
+      latitude: 40 + i * 0.001,
+      longitude: -3,
+      time: NOW + i * 1000,
+    }));
+    const log = recordPosition({ ...startTripLog(NOW), track }, { latitude: 42.5, longitude: -3 });
+    expect(log.track).toHaveLength(1001);
+    expect(log.track[0]).toBe(track[0]);
+    expect(log.track[1]).toBe(track[2]);
+    expect(log.track[1000].latitude).toBe(42.5);
+  });
+});
+
+describe("tripToGpx", () => {
+  it("writes a waypoint per incident and the driven track", () => {
+    const position = { latitude: 40.4, longitude: -3.9 };
+    const titled = hit("a", 812.4);
+    titled.event.title = "A & B";
+    let log = recordHits(startTripLog(NOW), [titled], position, NOW);
+    log = recordPosition(log, position, NOW);
+
+    const gpx = tripToGpx(log);
+    expect(gpx).toContain('<wpt lat="40.5" lon="-3.9">');
+    expect(gpx).toContain("<name>A-6 PK 25+300</name>");
+    expect(gpx).toContain("<desc>A &amp; B • mín. 812 m</desc>");
+    expect(gpx).toContain(
+      '<trkpt lat="40.4" lon="-3.9"><time>2026-05-01T10:00:00.000Z</time></trkpt>'
+    );
+  });
+
+  it("leaves out the track when there isn't one", () => {
+    expect(tripToGpx(startTripLog(NOW))).not.toContain("<trk>");
+  });
+});
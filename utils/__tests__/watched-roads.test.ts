@@ -0,0 +1,45 @@
+import type { AlertEvent } from "@/types/alerts";
+import { matchWatchedRoads, matchesWatch, type WatchedRoad } from "@/utils/watched-roads";
+
+const watch: WatchedRoad = { id: "w1", road: "A-6", fromPk: 30, toPk: 20, direction: "Norte" };
+
+function event(fields: Partial<AlertEvent> = {}): AlertEvent {
+  return { id: "e", type: "ACCIDENT", lat: 40.5, lon: -3.9, road: "A6", pkKm: 25, ...fields };
+}
+
+describe("matchesWatch", () => {
+  it("matches events on the watched stretch, whichever way round the PKs are", () => {
+    expect(matchesWatch(event(), watch)).toBe(true);
+    expect(matchesWatch(event({ pkKm: 20 }), watch)).toBe(true);
+    expect(matchesWatch(event({ pkKm: 31 }), watch)).toBe(false);
+    expect(matchesWatch(event({ road: "M-40" }), watch)).toBe(false);
+  });
+
+  it("reads the PK from the DGT text when there is no number", () => {
+    expect(matchesWatch(event({ pkKm: undefined, pkText: "23+400" }), watch)).toBe(true);
+    expect(matchesWatch(event({ pkKm: undefined, pkText: "35,2" }), watch)).toBe(false);
+    expect(matchesWatch(event({ pkKm: undefined }), watch)).toBe(false);
+  });
+
+  it("skips the opposite direction but keeps events without one", () => {
+    expect(matchesWatch(event({ direction: "N" }), watch)).toBe(true);
+    expect(matchesWatch(event({ direction: "Sur" }), watch)).toBe(false);
+    expect(matchesWatch(event({ orientation: "S" }), watch)).toBe(false);
+    expect(matchesWatch(event(), { ...watch, direction: undefined })).toBe(true);
+  });
+});
+
+describe("matchWatchedRoads", () => {
+  it("pairs each event with the first watched road it falls in", () => {
+    const other: WatchedRoad = { id: "w2", road: "A-6", fromPk: 0, toPk: 50 };
+    const events = [
+      event({ id: "a" }),
+      event({ id: "b", pkKm: 40 }),
+      event({ id: "c", road: "N-1" }),
+    ];
+    expect(matchWatchedRoads(events, [watch, other])).toEqual([
+      { watchId: "w1", event: events[0] },
+      { watchId: "w2", event: events[1] },
+    ]);
+  });
+});
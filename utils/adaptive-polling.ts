@@ -0,0 +1,48 @@
+export type PollingPlan = {
+  intervalMs: number;
+  radiusMeters: number;
+};
+
+// ~5 km/h: aparcado o andando
+const PARKED_SPEED = 1.5;
+// ~30 km/h: atasco o ciudad
+const SLOW_SPEED = 8;
+// A velocidad de autovía queremos ver lo que hay en los próximos 90 s.
+const LOOK_AHEAD_SECONDS = 90;
+// Entre dos consultas no deberíamos recorrer más de un cuarto del radio.
+const MAX_SHARE_OF_RADIUS_PER_POLL = 0.25;
+
+const MIN_INTERVAL_MS = 10000;
+const MAX_INTERVAL_MS = 120000;
+const MAX_RADIUS_METERS = 10000;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Poll interval and query radius for the current GPS speed (m/s), starting
+ * from the user's configured values:
+ * - unknown speed: the configured values as-is;
+ * - parked / walking: 4× slower polling;
+ * - traffic jam / town: 2× slower polling;
+ * - faster: radius grows to cover ~90 s of driving and the interval shrinks
+ *   so the car never covers more than a quarter of the radius between polls.
+ */
+export function planPolling(speed: number | null, base: PollingPlan): PollingPlan {
+  if (speed === null || speed < 0) return base;
+
+  if (speed < PARKED_SPEED) {
+    return { ...base, intervalMs: Math.min(base.intervalMs * 4, MAX_INTERVAL_MS) };
+  }
+  if (speed < SLOW_SPEED) {
+    return { ...base, intervalMs: Math.min(base.intervalMs * 2, MAX_INTERVAL_MS) };
+  }
+
+  const radiusMeters = clamp(speed * LOOK_AHEAD_SECONDS, base.radiusMeters, MAX_RADIUS_METERS);
+  const intervalMs = clamp(
+    ((radiusMeters * MAX_SHARE_OF_RADIUS_PER_POLL) / speed) * 1000,
+    Math.min(MIN_INTERVAL_MS, base.intervalMs),
+    base.intervalMs
+  );
+  return { intervalMs: Math.round(intervalMs), radiusMeters: Math.round(radiusMeters) };
+}
@@ -0,0 +1,30 @@
+import type { AlertHit } from "@/types/alerts";
+import { categorize, INCIDENT_CATEGORIES, type IncidentCategory } from "@/utils/incident-filter";
+
+/**
+ * How an alert sounds and feels: the beep is replayed `repeats` times at
+ * `rate` (higher = higher pitch) and the phone vibrates with `vibration`
+ * (RN `Vibration` pattern: wait, vibrate, wait, vibrate… in ms).
+ */
+export type AlertCue = {
+  rate: number;
+  repeats: number;
+  vibration: number[];
+};
+
+export const ALERT_CUES: Record<IncidentCategory, AlertCue> = {
+  accident: { rate: 1.5, repeats: 3, vibration: [0, 600, 150, 600, 150, 600] },
+  closure: { rate: 1.5, repeats: 2, vibration: [0, 800, 200, 800] },
+  obstacle: { rate: 1.25, repeats: 2, vibration: [0, 300, 100, 300, 100, 300] },
+  weather: { rate: 1, repeats: 2, vibration: [0, 400, 200, 400] },
+  congestion: { rate: 1, repeats: 1, vibration: [0, 400] },
+  roadworks: { rate: 0.75, repeats: 1, vibration: [0, 200] },
+  other: { rate: 1, repeats: 1, vibration: [0, 300] },
+};
+
+/** Cue of the most urgent category among `hits` (which must not be empty). */
+export function cueForHits(hits: AlertHit[]) {
+  const categories = new Set(hits.map((hit) => categorize(hit.event)));
+  const top = INCIDENT_CATEGORIES.find((c) => categories.has(c)) ?? "other";
+  return ALERT_CUES[top];
+}
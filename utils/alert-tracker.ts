@@ -0,0 +1,79 @@
+import type { AlertHit } from "@/types/alerts";
+
+/** Distances (meters) at which an already announced event is announced again. */
+export const DEFAULT_ALERT_THRESHOLDS_METERS = [2000, 1000, 500];
+
+export const THRESHOLD_RANGE = { min: 50, max: 20000 };
+const MAX_THRESHOLDS = 5;
+
+/**
+ * Reads thresholds typed as "2000, 1000, 500": whole meters in
+ * `THRESHOLD_RANGE`, at most five, returned farthest first without
+ * repeats. `null` if anything doesn't fit.
+ */
+export function parseThresholds(text: string) {
+  const values = text.split(/[\s,;]+/).filter(Boolean).map(Number);
+  const valid = values.every(
+    (v) => Number.isInteger(v) && v >= THRESHOLD_RANGE.min && v <= THRESHOLD_RANGE.max
+  );
+  const unique = [...new Set(values)].sort((a, b) => b - a);
+  return valid && unique.length && unique.length <= MAX_THRESHOLDS ? unique : null;
+}
+
+export type AnnouncedEvent = {
+  /** how many thresholds had been crossed when we last announced it */
+  level: number;
+  severity?: number;
+};
+
+/** What has already been announced, keyed by `AlertEvent.id`. */
+export type AlertMemory = Map<string, AnnouncedEvent>;
+
+/**
+ * Number of thresholds `distanceMeters` is within (0 = beyond all of them).
+ */
+export function thresholdLevel(distanceMeters: number, thresholds: number[]) {
+  return thresholds.filter((t) => distanceMeters <= t).length;
+}
+
+/**
+ * Decides which on-route hits deserve a new announcement and returns the
+ * updated memory. An event is announced when first seen, when it crosses a
+ * closer threshold or when its severity changes. Events in `kept` (off the
+ * route for now but not passed, e.g. heading jitter on a curve) are
+ * remembered as they were; any other event (behind the driver or gone from
+ * the feed) is forgotten.
+ *
+ * Pure: `memory` is not mutated.
+ */
+export function trackAlerts(
+  memory: AlertMemory,
+  onRoute: AlertHit[],
+  thresholds: number[] = DEFAULT_ALERT_THRESHOLDS_METERS,
+  kept: AlertHit[] = []
+) {
+  const next: AlertMemory = new Map();
+  const announce: AlertHit[] = [];
+
+  for (const hit of onRoute) {
+    const { id, severity } = hit.event;
+    const level = thresholdLevel(hit.distanceMeters, thresholds);
+    const prev = memory.get(id);
+
+    const isNew = !prev && level > 0;
+    const closer = !!prev && level > prev.level;
+    const severityChanged = !!prev && prev.severity !== severity;
+
+    if (isNew || closer || severityChanged) announce.push(hit);
+
+    // nos quedamos con el nivel máximo: el jitter del GPS no debe re-avisar
+    next.set(id, { level: Math.max(level, prev?.level ?? 0), severity });
+  }
+
+  for (const { event } of kept) {
+    const prev = memory.get(event.id);
+    if (prev && !next.has(event.id)) next.set(event.id, prev);
+  }
+
+  return { memory: next, announce };
+}
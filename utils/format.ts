@@ -0,0 +1,152 @@
+import { formatDateTime, formatNumber, tr, type MessageKey } from "@/i18n";
+import type { AlertEvent } from "@/types/alerts";
+import { categorize } from "@/utils/incident-filter";
+import { compassBearing } from "@/utils/route-filter";
+import { stripAccents } from "@/utils/text";
+
+const MINUTE = 60_000;
+
+const formatKm = (km: number) => formatNumber(km, { maximumFractionDigits: 1 });
+
+const normalize = (value: string) => stripAccents(value).trim().toLowerCase();
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+}
+
+/** Length of time as "45 min", "2 h 15 min" or "3 d 4 h". */
+export function formatDuration(ms: number) {
+  const total = Math.max(1, Math.round(Math.abs(ms) / MINUTE));
+  const days = Math.floor(total / 1440);
+  const hours = Math.floor((total % 1440) / 60);
+  const minutes = total % 60;
+
+  if (days) {
+    return hours ? tr("duration.daysHours", { days, hours }) : tr("duration.days", { days });
+  }
+  if (hours) {
+    return minutes
+      ? tr("duration.hoursMinutes", { hours, minutes })
+      : tr("duration.hours", { hours });
+  }
+  return tr("duration.minutes", { minutes });
+}
+
+/**
+ * Age of a timestamp as "hace 2 h 15 min" (in the active language). Future
+ * timestamps, e.g. scheduled roadworks, read "dentro de 3 d".
+ */
+export function formatAge(since: number, now = Date.now()) {
+  const diff = now - since;
+  if (Math.abs(diff) < MINUTE) return tr("age.now");
+  const duration = formatDuration(diff);
+  return diff > 0 ? tr("age.ago", { duration }) : tr("age.in", { duration });
+}
+
+/** Absolute date plus relative age, e.g. "12 oct 2026, 14:30 (hace 2 h 15 min)". */
+export function formatStartTime(startTime: string, now = Date.now()) {
+  const ms = Date.parse(startTime);
+  if (Number.isNaN(ms)) return startTime;
+  return `${formatDateTime(ms)} (${formatAge(ms, now)})`;
+}
+
+/**
+ * Kilometre point of an event as a number: `pkKm` when present, otherwise
+ * parsed from `pkText` ("23,4", "23.4" or the DGT "23+400").
+ */
+export function pkKilometres(event: AlertEvent) {
+  if (event.pkKm !== undefined) return event.pkKm;
+  const text = event.pkText?.trim();
+  if (!text) return null;
+
+  const plus = text.match(/^(\d+)\s*\+\s*(\d{1,3})$/);
+  if (plus) return Number(plus[1]) + Number(plus[2].padEnd(3, "0")) / 1000;
+
+  const km = Number(text.replace(",", "."));
+  return Number.isFinite(km) ? km : null;
+}
+
+/** "PK 23,4"; falls back to the raw `pkText` if it isn't a number. */
+export function formatPk(event: AlertEvent) {
+  const km = pkKilometres(event);
+  if (km !== null) return tr("format.pk", { pk: formatKm(km) });
+  return event.pkText ? tr("format.pk", { pk: event.pkText }) : null;
+}
+
+/** Stretch between two kilometre points, e.g. "PK 10–40,5". */
+export function formatPkRange(fromPk: number, toPk: number) {
+  return tr("format.pk", { pk: `${formatKm(fromPk)}–${formatKm(toPk)}` });
+}
+
+/** Road and kilometre point, e.g. "A-6 • PK 23,4". */
+export function formatLocation(event: AlertEvent, separator = " • ") {
+  return [event.road, formatPk(event)].filter(Boolean).join(separator);
+}
+
+// Códigos de sentido: DGT en español y DATEX II en inglés.
+const DIRECTIONS: Record<string, MessageKey> = {
+  creciente: "direction.increasing",
+  positive: "direction.increasing",
+  decreciente: "direction.decreasing",
+  negative: "direction.decreasing",
+  ambos: "direction.both",
+  both: "direction.both",
+};
+
+const ORIENTATIONS: MessageKey[] = [
+  "orientation.north",
+  "orientation.northEast",
+  "orientation.east",
+  "orientation.southEast",
+  "orientation.south",
+  "orientation.southWest",
+  "orientation.west",
+  "orientation.northWest",
+];
+
+/** "creciente" → "Creciente (PK en aumento)"; unknown codes are shown as-is. */
+export function formatDirection(direction?: string) {
+  if (!direction) return null;
+  const key = DIRECTIONS[normalize(direction)];
+  return key ? tr(key) : direction;
+}
+
+/** "NORTE" / "NE" / "NORTHWEST" → "Hacia el norte" …; unknown codes as-is. */
+export function formatOrientation(orientation?: string) {
+  if (!orientation) return null;
+  const bearing = compassBearing(orientation);
+  if (bearing === null) return orientation;
+  return tr(ORIENTATIONS[Math.round(bearing / 45) % 8]);
+}
+
+/** "user" (reported from the app) localized; other sources as they come. */
+export function formatSource(source?: string) {
+  return source === "user" ? tr("source.user") : source;
+}
+
+/** Localized label for the incident type, from its category. */
+export function incidentLabel(event: AlertEvent) {
+  const category = categorize(event);
+  if (category !== "other") return tr(`incident.${category}`);
+  return event.title || (event.type ? capitalize(event.type) : tr("common.incident"));
+}
+
+// Causas frecuentes (en español o DATEX II); el resto se muestra tal cual.
+const CAUSES: [RegExp, MessageKey][] = [
+  [/niebla|fog/, "cause.fog"],
+  [/nieve|snow/, "cause.snow"],
+  [/hielo|ice\b/, "cause.ice"],
+  [/lluvia|rain/, "cause.rain"],
+  [/viento|wind/, "cause.wind"],
+  [/animal/, "cause.animal"],
+  [/objeto|object/, "cause.object"],
+  [/averia|breakdown|broken/, "cause.breakdown"],
+];
+
+/** Localized label for a known cause; other causes capitalized. */
+export function formatCause(cause?: string) {
+  if (!cause) return null;
+  const text = normalize(cause);
+  const key = CAUSES.find(([re]) => re.test(text))?.[1];
+  return key ? tr(key) : capitalize(cause);
+}
@@ -0,0 +1,52 @@
+import { formatNumber } from "@/i18n";
+import type { AlertEvent, AlertHit, Coords } from "@/types/alerts";
+import { haversineMeters } from "@/utils/geo";
+
+export type HitSort = "distance" | "severity";
+
+function byDistance(a: AlertHit, b: AlertHit) {
+  return a.distanceMeters - b.distanceMeters;
+}
+
+function bySeverity(a: AlertHit, b: AlertHit) {
+  // sin severidad => al final; empate => la más cercana primero
+  const diff = (b.event.severity ?? -1) - (a.event.severity ?? -1);
+  return diff !== 0 ? diff : byDistance(a, b);
+}
+
+/**
+ * Returns a new array with the hits ranked for display. Never mutates `hits`.
+ */
+export function rankHits(hits: AlertHit[], sort: HitSort) {
+  return [...hits].sort(sort === "distance" ? byDistance : bySeverity);
+}
+
+/** Distance in km with one decimal, e.g. "1,2 km" in Spanish. */
+export function formatDistance(meters: number) {
+  const km = formatNumber(meters / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  return `${km} km`;
+}
+
+/**
+ * Hits for `events` within `radiusMeters` of `coords`, with locally computed
+ * distances (same semantics as the backend's `/alerts`).
+ */
+export function hitsAround(events: Iterable<AlertEvent>, coords: Coords, radiusMeters: number) {
+  const hits: AlertHit[] = [];
+  for (const event of events) {
+    const distanceMeters = haversineMeters(coords, { latitude: event.lat, longitude: event.lon });
+    if (distanceMeters <= radiusMeters) hits.push({ event, distanceMeters });
+  }
+  return hits.sort(byDistance);
+}
+
+/**
+ * Same hits with `distanceMeters` recomputed from `coords`, for the
+ * continuous GPS countdown between queries. Pure.
+ */
+export function withLiveDistances(hits: AlertHit[], coords: Coords) {
+  return hits.map((hit) => ({
+    ...hit,
+    distanceMeters: haversineMeters(coords, { latitude: hit.event.lat, longitude: hit.event.lon }),
+  }));
+}
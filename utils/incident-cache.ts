@@ -0,0 +1,89 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { AlertEvent, AlertHit, Coords } from "@/types/alerts";
+import { haversineMeters } from "@/utils/geo";
+
+export type CachedIncident = {
+  event: AlertEvent;
+  /** last time the backend returned this event (ms since epoch) */
+  fetchedAt: number;
+};
+
+/** Last known incidents, keyed by `AlertEvent.id`. */
+export type IncidentCache = Record<string, CachedIncident>;
+
+const STORAGE_KEY = "trafficalert.incidentCache";
+
+// Pasado este tiempo una incidencia guardada ya no nos fiamos de ella.
+const MAX_AGE_MS = 12 * 60 * 60 * 1000;
+const MAX_ENTRIES = 300;
+
+const eventCoords = (event: AlertEvent): Coords => ({
+  latitude: event.lat,
+  longitude: event.lon,
+});
+
+export async function loadIncidentCache(): Promise<IncidentCache> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as IncidentCache) : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function saveIncidentCache(cache: IncidentCache) {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch {
+    // la caché es best-effort
+  }
+}
+
+/**
+ * Merges a fresh `/alerts` answer into the cache. Cached events inside the
+ * queried circle that the backend no longer returns are dropped (cleared),
+ * the rest are kept. Expired and excess entries are pruned. Pure.
+ */
+export function mergeIntoCache(
+  cache: IncidentCache,
+  query: Coords & { radiusMeters: number },
+  hits: AlertHit[],
+  now = Date.now()
+): IncidentCache {
+  const next: IncidentCache = {};
+
+  for (const [id, cached] of Object.entries(cache)) {
+    const covered = haversineMeters(query, eventCoords(cached.event)) <= query.radiusMeters;
+    if (!covered && now - cached.fetchedAt <= MAX_AGE_MS) next[id] = cached;
+  }
+  for (const hit of hits) {
+    next[hit.event.id] = { event: hit.event, fetchedAt: now };
+  }
+
+  const entries = Object.entries(next);
+  if (entries.length <= MAX_ENTRIES) return next;
+  entries.sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt);
+  return Object.fromEntries(entries.slice(0, MAX_ENTRIES));
+}
+
+/**
+ * Offline stand-in for `/alerts`: cached events within `radiusMeters` of
+ * `coords`, with locally computed distances and `staleSince` set.
+ */
+export function hitsFromCache(
+  cache: IncidentCache,
+  coords: Coords,
+  radiusMeters: number,
+  now = Date.now()
+): AlertHit[] {
+  const hits: AlertHit[] = [];
+  for (const { event, fetchedAt } of Object.values(cache)) {
+    if (now - fetchedAt > MAX_AGE_MS) continue;
+    const distanceMeters = haversineMeters(coords, eventCoords(event));
+    if (distanceMeters <= radiusMeters) {
+      hits.push({ event, distanceMeters, staleSince: fetchedAt });
+    }
+  }
+  return hits.sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
@@ -0,0 +1,35 @@
+import type { AlertEvent, AlertHit } from "@/types/alerts";
+
+// A esta distancia el conductor ya ve si la incidencia sigue ahí.
+export const PASSING_METERS = 150;
+
+// Con menos respuestas de "ya no está" no nos fiamos de ninguna.
+export const CLEARED_MIN_ANSWERS = 2;
+
+/**
+ * The closest hit the driver is passing right now (within `PASSING_METERS`)
+ * that hasn't been asked about yet, if any. Pure.
+ */
+export function passingHit(hits: AlertHit[], asked: ReadonlySet<string>) {
+  let closest: AlertHit | null = null;
+  for (const hit of hits) {
+    if (hit.distanceMeters > PASSING_METERS || asked.has(hit.event.id)) continue;
+    if (!closest || hit.distanceMeters < closest.distanceMeters) closest = hit;
+  }
+  return closest;
+}
+
+/**
+ * Several drivers said it's gone, and more of them than said it's still
+ * there: shown downgraded, although the feed still lists it.
+ */
+export function isReportedCleared(event: AlertEvent) {
+  const cleared = event.clearedCount ?? 0;
+  return cleared >= CLEARED_MIN_ANSWERS && cleared > (event.confirmedCount ?? 0);
+}
+
+/** Same hits with the reported-cleared ones moved to the end, otherwise in order. */
+export function clearedLast(hits: AlertHit[]) {
+  const cleared = hits.filter((hit) => isReportedCleared(hit.event));
+  return cleared.length ? [...hits.filter((hit) => !cleared.includes(hit)), ...cleared] : hits;
+}
@@ -0,0 +1,63 @@
+import type { AlertEvent, AlertHit } from "@/types/alerts";
+import { stripAccents } from "@/utils/text";
+
+export type IncidentCategory =
+  | "accident"
+  | "closure"
+  | "obstacle"
+  | "weather"
+  | "congestion"
+  | "roadworks"
+  | "other";
+
+/** Most urgent first: used to pick which cue to play when several arrive. */
+export const INCIDENT_CATEGORIES: IncidentCategory[] = [
+  "accident",
+  "closure",
+  "obstacle",
+  "weather",
+  "congestion",
+  "roadworks",
+  "other",
+];
+
+/** "ignore" hides a category, "always" shows it whatever its severity. */
+export type CategoryRule = "default" | "ignore" | "always";
+
+export type AlertFilters = {
+  /** hits with a known severity below this are hidden; 0 shows everything */
+  minSeverity: number;
+  rules: Partial<Record<IncidentCategory, CategoryRule>>;
+};
+
+export const DEFAULT_ALERT_FILTERS: AlertFilters = {
+  minSeverity: 0,
+  rules: { accident: "always", closure: "always" },
+};
+
+// Palabras clave en `type` y `cause` (DGT en mayúsculas, backend en español).
+const KEYWORDS: [IncidentCategory, RegExp][] = [
+  ["accident", /ACCIDENT|ACCIDENTE|COLISION|ALCANCE/],
+  ["closure", /CLOSURE|CLOSED|CORTAD|CORTE|CIERRE/],
+  ["obstacle", /OBSTACLE|OBSTACULO|OBJETO|ANIMAL/],
+  ["weather", /WEATHER|METEO|NIEBLA|NIEVE|HIELO|LLUVIA|VIENTO/],
+  ["congestion", /CONGESTION|RETENCION|ATASCO|JAM/],
+  ["roadworks", /ROADWORK|MAINTENANCE|OBRA/],
+];
+
+export function categorize(event: AlertEvent): IncidentCategory {
+  const text = stripAccents(`${event.type} ${event.cause ?? ""}`).toUpperCase();
+  return KEYWORDS.find(([, re]) => re.test(text))?.[0] ?? "other";
+}
+
+export function passesFilters(event: AlertEvent, filters: AlertFilters) {
+  const rule = filters.rules[categorize(event)] ?? "default";
+  if (rule === "always") return true;
+  if (rule === "ignore") return false;
+  // sin severidad no sabemos: mejor avisar
+  return event.severity === undefined || event.severity >= filters.minSeverity;
+}
+
+export function filterHits(hits: AlertHit[], filters: AlertFilters) {
+  return hits.filter((hit) => passesFilters(hit.event, filters));
+}
@@ -0,0 +1,17 @@
+import * as Location from "expo-location";
+
+import type { Coords } from "@/types/alerts";
+import { normalizeRoad } from "@/utils/route-filter";
+
+/**
+ * Best-effort road code (e.g. "A-6") for a position, via the platform
+ * reverse geocoder. `null` when unknown or offline.
+ */
+export async function guessCurrentRoad(coords: Coords) {
+  try {
+    const [place] = await Location.reverseGeocodeAsync(coords);
+    return normalizeRoad(place?.street) ?? normalizeRoad(place?.name);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,47 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+
+import { tr } from "@/i18n";
+
+const ALERTS_CHANNEL_ID = "alerts";
+
+/**
+ * Shows incident notifications also while the app is in the foreground
+ * (e.g. a watched-roads check that runs with the app open); without a
+ * handler the system drops them. Call once at startup.
+ */
+export function showNotificationsInForeground() {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+/**
+ * Asks for notification permission and creates the Android channel used for
+ * incident notifications. Safe to call repeatedly.
+ */
+export async function prepareNotifications() {
+  await Notifications.requestPermissionsAsync();
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync(ALERTS_CHANNEL_ID, {
+      name: tr("notifications.channel"),
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+}
+
+/**
+ * Shows a local notification for an incident right away. `eventId` travels in
+ * the notification data.
+ */
+export async function notifyIncident(title: string, body: string, eventId: string) {
+  await Notifications.scheduleNotificationAsync({
+    content: { title, body, data: { eventId }, sound: true },
+    trigger: Platform.OS === "android" ? { channelId: ALERTS_CHANNEL_ID } : null,
+  });
+}
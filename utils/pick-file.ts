@@ -0,0 +1,12 @@
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+
+/** Lets the user pick a file and reads it as text; `null` if they cancel. */
+export async function pickTextFile(types: string[]) {
+  const result = await DocumentPicker.getDocumentAsync({ type: types, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  const asset = result.assets[0];
+  // en web no hay sistema de ficheros: viene el File del navegador
+  const text = asset.file ? await asset.file.text() : await new File(asset.uri).text();
+  return { name: asset.name, text };
+}
@@ -0,0 +1,99 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { AlertEvent } from "@/types/alerts";
+
+/** What the driver can report from the road. */
+export type ReportKind = "accident" | "object" | "animal" | "jam" | "weather";
+
+export const REPORT_KINDS: ReportKind[] = ["accident", "object", "animal", "jam", "weather"];
+
+/**
+ * An incident reported by the driver, as sent to `POST /reports`. `id` is
+ * generated here so that a retried report isn't stored twice.
+ */
+export type IncidentReport = {
+  id: string;
+  kind: ReportKind;
+  note?: string;
+  lat: number;
+  lon: number;
+  /** degrees from north, when the GPS had one */
+  heading: number | null;
+  /** m/s */
+  speed: number | null;
+  road: string | null;
+  /** ISO 8601 */
+  createdAt: string;
+};
+
+/** A report kept locally, with the incident it became once the backend took it. */
+export type OwnReport = {
+  report: IncidentReport;
+  event: AlertEvent;
+  /** still in the outbox, waiting for a connection */
+  pending: boolean;
+};
+
+const REPORTS_KEY = "trafficalert.reports";
+
+// Pasado este tiempo el aviso propio deja de mostrarse (y de reintentarse).
+export const REPORT_TTL_MS = 3 * 3600 * 1000;
+
+// Tipo y causa con los que el backend (y `categorize`) los entienden.
+const KIND_EVENTS: Record<ReportKind, { type: string; cause: string }> = {
+  accident: { type: "ACCIDENT", cause: "accidente" },
+  object: { type: "OBSTACLE", cause: "objeto en calzada" },
+  animal: { type: "OBSTACLE", cause: "animal en calzada" },
+  jam: { type: "CONGESTION", cause: "retención" },
+  weather: { type: "WEATHER", cause: "meteorología adversa" },
+};
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SO", "O", "NO"];
+
+export function newReportId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * The incident a report stands for until the backend answers, so the
+ * driver sees it right away (also offline). `source` is always "user".
+ */
+export function reportToEvent(report: IncidentReport): AlertEvent {
+  const { heading } = report;
+  return {
+    id: `user-${report.id}`,
+    ...KIND_EVENTS[report.kind],
+    note: report.note,
+    road: report.road ?? undefined,
+    orientation:
+      heading !== null && heading >= 0
+        ? COMPASS_POINTS[Math.round(heading / 45) % 8]
+        : undefined,
+    startTime: report.createdAt,
+    source: "user",
+    lat: report.lat,
+    lon: report.lon,
+  };
+}
+
+/** Drops reports older than `REPORT_TTL_MS`, sent or not. Pure. */
+export function pruneReports(reports: OwnReport[], now = Date.now()) {
+  return reports.filter((r) => now - Date.parse(r.report.createdAt) < REPORT_TTL_MS);
+}
+
+export async function loadReports(): Promise<OwnReport[]> {
+  try {
+    const raw = await AsyncStorage.getItem(REPORTS_KEY);
+    return raw ? pruneReports(JSON.parse(raw) as OwnReport[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveReports(reports: OwnReport[]) {
+  try {
+    await AsyncStorage.setItem(REPORTS_KEY, JSON.stringify(reports));
+  } catch {
+    // best-effort: en el peor caso se pierde el aviso pendiente
+  }
+}
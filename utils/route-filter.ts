@@ -0,0 +1,186 @@
+import type { AlertEvent, AlertHit, Coords } from "@/types/alerts";
+import { angleDiff, bearingDegrees } from "@/utils/geo";
+import { stripAccents } from "@/utils/text";
+
+export type Motion = Coords & {
+  /** degrees from north, `null` when the GPS can't tell */
+  heading: number | null;
+  /** m/s */
+  speed: number | null;
+  /** road code we believe the car is on (e.g. "A-6"), if known */
+  road?: string | null;
+};
+
+// Por debajo de ~7 km/h el rumbo del GPS es ruido.
+const MIN_SPEED_FOR_HEADING = 2;
+// Semiángulo del cono "por delante" del vehículo.
+const AHEAD_HALF_ANGLE = 75;
+// Muy cerca el rumbo hacia el punto es inestable: no lo descartamos.
+const ALWAYS_AHEAD_METERS = 150;
+// Más allá de este ángulo respecto al rumbo la incidencia ya quedó atrás.
+const BEHIND_ANGLE = 90;
+// Tolerancia entre nuestro rumbo y el sentido declarado de la incidencia.
+const DIRECTION_TOLERANCE = 90;
+
+const COMPASS: Record<string, number> = {
+  N: 0,
+  NORTE: 0,
+  NORTH: 0,
+  NE: 45,
+  NORESTE: 45,
+  NORTHEAST: 45,
+  E: 90,
+  ESTE: 90,
+  EAST: 90,
+  SE: 135,
+  SURESTE: 135,
+  SOUTHEAST: 135,
+  S: 180,
+  SUR: 180,
+  SOUTH: 180,
+  SO: 225,
+  SW: 225,
+  SUROESTE: 225,
+  SOUTHWEST: 225,
+  O: 270,
+  W: 270,
+  OESTE: 270,
+  WEST: 270,
+  NO: 315,
+  NW: 315,
+  NOROESTE: 315,
+  NORTHWEST: 315,
+};
+
+function normalizeWord(value: string) {
+  return stripAccents(value)
+    .replace(/[^a-zA-Z]/g, "")
+    .toUpperCase();
+}
+
+/**
+ * Compass bearing for a DGT orientation/direction value, or `null` when it
+ * isn't a compass word (e.g. "ambos", "creciente").
+ */
+export function compassBearing(value?: string) {
+  if (!value) return null;
+  const b = COMPASS[normalizeWord(value)];
+  return b === undefined ? null : b;
+}
+
+/**
+ * Whether two DGT direction/orientation values point the same way. Unknown
+ * (missing) values match anything.
+ */
+export function sameDirection(a?: string, b?: string) {
+  if (!a || !b) return true;
+  const ca = compassBearing(a);
+  const cb = compassBearing(b);
+  if (ca !== null && cb !== null) return angleDiff(ca, cb) <= 45;
+  return normalizeWord(a) === normalizeWord(b);
+}
+
+// Prefijos de carreteras en España: estatales, autonómicas y provinciales. Cualquier
+// otra palabra seguida de un número es una calle ("Avenida de la Paz 12"), no una vía.
+const ROAD_PREFIXES = new Set([
+  // estatales y europeas
+  "A", "AP", "N", "R", "E",
+  // autonómicas
+  "AG", "AS", "CA", "CL", "CM", "CV", "EX", "LR", "NA", "RM", "C",
+  // provinciales y de circunvalación
+  "AB", "AC", "AL", "AV", "B", "BA", "BI", "BU", "BV", "CC", "CO", "CR", "CS", "CU",
+  "FV", "GC", "GI", "GIV", "GR", "GU", "H", "HU", "J", "JA", "L", "LE", "LP", "LU",
+  "LV", "LZ", "M", "MA", "ME", "MU", "OU", "P", "PM", "PO", "S", "SA", "SE",
+  "SG", "SO", "SS", "T", "TE", "TF", "TO", "TV", "V", "VA", "Z", "ZA",
+]);
+
+/**
+ * Canonical road code ("a6", "AP 7", "Autovía A-6" → "A-6"), or `null` if
+ * the text doesn't name a Spanish road.
+ */
+export function normalizeRoad(road?: string | null) {
+  if (!road) return null;
+  for (const m of road.toUpperCase().matchAll(/\b([A-Z]{1,3})[\s-]?(\d{1,4})\b/g)) {
+    if (ROAD_PREFIXES.has(m[1])) return `${m[1]}-${m[2]}`;
+  }
+  return null;
+}
+
+export function hasReliableHeading(motion: Motion) {
+  return (
+    motion.heading !== null &&
+    motion.heading >= 0 &&
+    motion.speed !== null &&
+    motion.speed >= MIN_SPEED_FOR_HEADING
+  );
+}
+
+function isOnOurRoad(event: AlertEvent, motion: Motion) {
+  const ours = normalizeRoad(motion.road);
+  const theirs = normalizeRoad(event.road);
+  // si no sabemos alguna de las dos carreteras no descartamos nada
+  return !ours || !theirs || ours === theirs;
+}
+
+function isInTravelDirection(event: AlertEvent, heading: number) {
+  const declared = compassBearing(event.orientation) ?? compassBearing(event.direction);
+  return declared === null || angleDiff(declared, heading) <= DIRECTION_TOLERANCE;
+}
+
+function isAhead(hit: AlertHit, motion: Motion, heading: number) {
+  if (hit.distanceMeters <= ALWAYS_AHEAD_METERS) return true;
+  const toEvent = bearingDegrees(motion, {
+    latitude: hit.event.lat,
+    longitude: hit.event.lon,
+  });
+  return angleDiff(toEvent, heading) <= AHEAD_HALF_ANGLE;
+}
+
+/**
+ * Whether the driver has already passed a hit: it lies behind the car, not
+ * just outside the cone ahead. Never true without a reliable heading.
+ */
+export function isBehind(hit: AlertHit, motion: Motion) {
+  if (!hasReliableHeading(motion) || hit.distanceMeters <= ALWAYS_AHEAD_METERS) return false;
+  const toEvent = bearingDegrees(motion, {
+    latitude: hit.event.lat,
+    longitude: hit.event.lon,
+  });
+  return angleDiff(toEvent, motion.heading as number) > BEHIND_ANGLE;
+}
+
+/**
+ * Whether a hit is relevant for the driver: ahead of the vehicle, in the
+ * travel direction and on the same road. Without a reliable heading every
+ * hit counts as relevant, the road too: stopped or crawling, the guessed
+ * road may well be a nearby street.
+ */
+export function isOnRoute(hit: AlertHit, motion: Motion) {
+  if (!hasReliableHeading(motion)) return true;
+
+  const heading = motion.heading as number;
+  return (
+    isOnOurRoad(hit.event, motion) &&
+    isInTravelDirection(hit.event, heading) &&
+    isAhead(hit, motion, heading)
+  );
+}
+
+/**
+ * Splits hits into the ones on the driver's route and the ones that are only
+ * nearby (behind, other carriageway, other road). `override` can settle a hit
+ * first (e.g. from a planned trip); `null` falls back to the heading filter.
+ */
+export function classifyHits(
+  hits: AlertHit[],
+  motion: Motion,
+  override?: (event: AlertEvent) => boolean | null
+) {
+  const onRoute: AlertHit[] = [];
+  const nearby: AlertHit[] = [];
+  for (const hit of hits) {
+    const relevant = override?.(hit.event) ?? isOnRoute(hit, motion);
+    (relevant ? onRoute : nearby).push(hit);
+  }
+  return { onRoute, nearby };
+}
@@ -0,0 +1,158 @@
+import type { AlertEvent, Coords, PlannedIncident, RoadSegment } from "@/types/alerts";
+import { pkKilometres } from "@/utils/format";
+import { haversineMeters } from "@/utils/geo";
+import { normalizeRoad } from "@/utils/route-filter";
+
+const METERS_PER_DEG_LAT = 111320;
+
+/**
+ * Projects `point` onto `polyline`. Returns how far along the route the
+ * closest point is and how far `point` is from the route, both in meters.
+ * Uses a local flat-earth approximation per segment, fine at road scale.
+ */
+export function projectOnPolyline(polyline: Coords[], point: Coords) {
+  let best = { alongMeters: 0, offMeters: Infinity };
+  let walked = 0;
+
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const a = polyline[i];
+    const b = polyline[i + 1];
+    const kx = METERS_PER_DEG_LAT * Math.cos((a.latitude * Math.PI) / 180);
+    const bx = (b.longitude - a.longitude) * kx;
+    const by = (b.latitude - a.latitude) * METERS_PER_DEG_LAT;
+    const px = (point.longitude - a.longitude) * kx;
+    const py = (point.latitude - a.latitude) * METERS_PER_DEG_LAT;
+
+    const len2 = bx * bx + by * by;
+    const t = len2 === 0 ? 0 : Math.min(1, Math.max(0, (px * bx + py * by) / len2));
+    const off = Math.hypot(px - t * bx, py - t * by);
+    const segLen = Math.sqrt(len2);
+
+    if (off < best.offMeters) best = { alongMeters: walked + t * segLen, offMeters: off };
+    walked += segLen;
+  }
+  if (polyline.length === 1) {
+    best = { alongMeters: 0, offMeters: haversineMeters(polyline[0], point) };
+  }
+  return best;
+}
+
+/**
+ * Keeps at most `maxPoints` evenly spaced points (first and last included) so
+ * the polyline we POST stays small.
+ */
+export function simplifyPolyline(polyline: Coords[], maxPoints = 500) {
+  if (polyline.length <= maxPoints) return polyline;
+  const step = (polyline.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => polyline[Math.round(i * step)]);
+}
+
+function segmentPosition(event: AlertEvent, segments: RoadSegment[]) {
+  const road = normalizeRoad(event.road);
+  const pk = pkKilometres(event);
+  if (!road || pk === null) return null;
+  for (let i = 0; i < segments.length; i++) {
+    const s = segments[i];
+    const lo = Math.min(s.fromPk, s.toPk);
+    const hi = Math.max(s.fromPk, s.toPk);
+    if (normalizeRoad(s.road) === road && pk >= lo && pk <= hi) {
+      // recorremos el tramo de fromPk a toPk, que puede ser decreciente
+      return { index: i, offsetKm: Math.abs(pk - s.fromPk) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Orders the events of a trip in the order the driver will meet them: by
+ * distance along the polyline when there is one, otherwise by segment and
+ * then by PK in the segment's direction. Events we can't place go last,
+ * grouped by road and PK.
+ */
+export function orderTripEvents(
+  events: AlertEvent[],
+  trip: { polyline?: Coords[]; segments?: RoadSegment[] }
+): PlannedIncident[] {
+  const polyline = trip.polyline && trip.polyline.length > 1 ? trip.polyline : null;
+  const segments = trip.segments ?? [];
+
+  const keyed = events.map((event) => {
+    if (polyline) {
+      const { alongMeters } = projectOnPolyline(polyline, {
+        latitude: event.lat,
+        longitude: event.lon,
+      });
+      return { event, alongMeters, key: [alongMeters] };
+    }
+    const pos = segmentPosition(event, segments);
+    return {
+      event,
+      alongMeters: null,
+      key: pos ? [pos.index, pos.offsetKm] : [Infinity, 0],
+    };
+  });
+
+  const byRoadPk = (a: AlertEvent, b: AlertEvent) =>
+    (a.road ?? "").localeCompare(b.road ?? "") || (a.pkKm ?? 0) - (b.pkKm ?? 0);
+
+  keyed.sort((a, b) => {
+    for (let i = 0; i < a.key.length; i++) {
+      if (a.key[i] !== b.key[i]) return a.key[i] - b.key[i];
+    }
+    return byRoadPk(a.event, b.event);
+  });
+
+  return keyed.map(({ event, alongMeters }) => ({ event, alongMeters }));
+}
+
+// carretera, PK inicial, PK final y sentido opcional
+const SEGMENT_LINE =
+  /^([A-Za-z]{1,3}[\s-]?\d{1,4})\s*:?\s+(\d+(?:[.,]\d+)?)\s*[-\s]\s*(\d+(?:[.,]\d+)?)(?:\s+(.+))?$/;
+
+/**
+ * Parses one segment per line: "A-6 10-40", "AP-7: 120,5 - 80" or
+ * "M-30 3 12 norte". Returns `null` if any non-empty line is invalid.
+ */
+export function parseSegments(text: string): RoadSegment[] | null {
+  const segments: RoadSegment[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const m = line.trim().match(SEGMENT_LINE);
+    const road = m && normalizeRoad(m[1]);
+    if (!m || !road) return null;
+    segments.push({
+      road,
+      fromPk: Number(m[2].replace(",", ".")),
+      toPk: Number(m[3].replace(",", ".")),
+      direction: m[4]?.trim() || undefined,
+    });
+  }
+  return segments;
+}
+
+// Más lejos que esto de la polilínea consideramos que no vamos por la ruta.
+const OFF_ROUTE_METERS = 300;
+// Margen hacia atrás: al pasar junto a la incidencia el GPS puede adelantarse.
+const BEHIND_TOLERANCE_METERS = 50;
+
+/**
+ * Builds a check for hits of events in a planned trip: `true` when the event
+ * is still ahead of `me` along the route, `false` when already passed, and
+ * `null` when it doesn't apply (no polyline, not a trip event, or we're off
+ * the route) so the regular heading filter decides.
+ */
+export function tripRouteCheck(
+  trip: { polyline?: Coords[]; incidents: PlannedIncident[] } | null,
+  me: Coords
+) {
+  const polyline = trip?.polyline;
+  const along = new Map(trip?.incidents.map((i) => [i.event.id, i.alongMeters]));
+  const mine = polyline ? projectOnPolyline(polyline, me) : null;
+  const onRoute = !!mine && mine.offMeters <= OFF_ROUTE_METERS;
+
+  return (event: AlertEvent): boolean | null => {
+    const eventAlong = along.get(event.id);
+    if (!onRoute || eventAlong === undefined || eventAlong === null) return null;
+    return eventAlong >= mine.alongMeters - BEHIND_TOLERANCE_METERS;
+  };
+}
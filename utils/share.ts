@@ -0,0 +1,40 @@
+import { Share } from "react-native";
+
+import { tr } from "@/i18n";
+import type { AlertEvent } from "@/types/alerts";
+import {
+  formatCause,
+  formatDirection,
+  formatLocation,
+  formatStartTime,
+  incidentLabel,
+} from "@/utils/format";
+
+// Mismo esquema que `scheme` en app.json.
+const APP_SCHEME = "dgtdemo";
+
+/** `dgtdemo://incident/<id>`, opened by `app/incident/[id].tsx`. */
+export function incidentLink(id: string) {
+  return `${APP_SCHEME}://incident/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Plain-text summary of an incident for messaging apps, in the active
+ * language, ending with its deep link.
+ */
+export function incidentSummary(event: AlertEvent) {
+  const cause = formatCause(event.cause);
+  const label = incidentLabel(event);
+  const lines = [
+    [label, cause !== label && cause].filter(Boolean).join(": "),
+    formatLocation(event),
+    formatDirection(event.direction),
+    event.startTime && tr("share.since", { since: formatStartTime(event.startTime) }),
+    tr("share.open", { link: incidentLink(event.id) }),
+  ];
+  return lines.filter(Boolean).join("\n");
+}
+
+export async function shareIncident(event: AlertEvent) {
+  await Share.share({ title: incidentLabel(event), message: incidentSummary(event) });
+}
@@ -0,0 +1,32 @@
+import { formatNumber, tr } from "@/i18n";
+import type { AlertHit } from "@/types/alerts";
+import { formatCause, incidentLabel, pkKilometres } from "@/utils/format";
+
+const decimal = (n: number, digits: number) =>
+  formatNumber(n, { maximumFractionDigits: digits });
+
+export function spokenDistance(meters: number) {
+  if (meters < 1000) {
+    // redondeamos a 50 m: "a 450 metros" se entiende mejor que "a 437"
+    return tr("speech.meters", { meters: Math.max(50, Math.round(meters / 50) * 50) });
+  }
+  const km = decimal(meters / 1000, 1);
+  return km === decimal(1, 1) ? tr("speech.oneKm") : tr("speech.km", { km });
+}
+
+/**
+ * Short sentence for a hit in the active language, e.g.
+ * "Accidente en A-6, punto kilométrico 23, a 1,5 kilómetros".
+ */
+export function buildAnnouncement(hit: AlertHit) {
+  const e = hit.event;
+  const what = formatCause(e.cause) ?? incidentLabel(e);
+  const parts = [e.road ? tr("speech.on", { what, road: e.road }) : what];
+
+  const pk = pkKilometres(e);
+  if (pk !== null) parts.push(tr("speech.pk", { pk: decimal(pk, 1) }));
+  else if (e.pkText) parts.push(tr("speech.pk", { pk: e.pkText }));
+  parts.push(tr("speech.at", { distance: spokenDistance(hit.distanceMeters) }));
+
+  return parts.join(", ");
+}
@@ -0,0 +1,4 @@
+/** "Obstáculo en la vía" → "Obstaculo en la via", for matching free text from the feed. */
+export function stripAccents(value: string) {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
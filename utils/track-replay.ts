@@ -0,0 +1,188 @@
+import type * as Location from "expo-location";
+
+import type { Coords } from "@/types/alerts";
+import { bearingDegrees, haversineMeters } from "@/utils/geo";
+
+/** A recorded position; `time` (ms since epoch) when the source has it. */
+export type ReplayPoint = Coords & { time?: number };
+
+export type ReplayTrack = {
+  name: string;
+  points: ReplayPoint[];
+};
+
+/** The file isn't a GPX/JSON track we can replay. */
+export class InvalidTrackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTrackError";
+  }
+}
+
+// Sin marcas de tiempo suponemos 50 km/h constantes.
+const DEFAULT_SPEED_MS = 50 / 3.6;
+const FIX_INTERVAL_MS = 1000;
+
+const isCoord = (value: unknown, limit: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit;
+
+function toPoint(lat: unknown, lon: unknown, time?: unknown): ReplayPoint | null {
+  if (!isCoord(lat, 90) || !isCoord(lon, 180)) return null;
+  const ms = typeof time === "number" ? time : typeof time === "string" ? Date.parse(time) : NaN;
+  return { latitude: lat, longitude: lon, time: Number.isNaN(ms) ? undefined : ms };
+}
+
+/** `<trkpt>` (or `<rtept>` for routes) with their optional `<time>`. */
+export function parseGpxTrack(xml: string): ReplayPoint[] {
+  const points: ReplayPoint[] = [];
+  const re = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  for (const [, , attrs, body = ""] of xml.matchAll(re)) {
+    const lat = attrs.match(/\blat="([^"]+)"/)?.[1];
+    const lon = attrs.match(/\blon="([^"]+)"/)?.[1];
+    const time = body.match(/<time>([^<]+)<\/time>/)?.[1];
+    const point = toPoint(Number(lat), Number(lon), time);
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+function jsonPoint(value: unknown): ReplayPoint | null {
+  // GeoJSON: [lon, lat]
+  if (Array.isArray(value)) return toPoint(value[1], value[0]);
+  if (typeof value !== "object" || value === null) return null;
+  const p = value as Record<string, unknown>;
+  return toPoint(p.latitude ?? p.lat, p.longitude ?? p.lon ?? p.lng, p.time ?? p.timestamp);
+}
+
+/**
+ * Our own trip export (`{ track: [...] }`), a bare array of points
+ * (`latitude`/`longitude` or `lat`/`lon`) or a GeoJSON LineString.
+ */
+export function parseJsonTrack(text: string): ReplayPoint[] {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new InvalidTrackError("not valid JSON");
+  }
+  const root = body as {
+    track?: unknown;
+    points?: unknown;
+    coordinates?: unknown;
+    geometry?: { coordinates?: unknown };
+  } | null;
+  const list = Array.isArray(root)
+    ? root
+    : (root?.track ?? root?.points ?? root?.coordinates ?? root?.geometry?.coordinates);
+  if (!Array.isArray(list)) throw new InvalidTrackError("no track points");
+  return list.map(jsonPoint).filter((p): p is ReplayPoint => !!p);
+}
+
+/**
+ * Parses a GPX or JSON track file.
+ *
+ * @throws {InvalidTrackError} if it has fewer than two usable points
+ */
+export function parseTrack(name: string, text: string): ReplayTrack {
+  const points = text.trimStart().startsWith("<") ? parseGpxTrack(text) : parseJsonTrack(text);
+  if (points.length < 2) throw new InvalidTrackError("fewer than two points");
+  return { name, points };
+}
+
+/**
+ * Offset of each point from the start, in ms of simulated time: the
+ * recorded times when every point has one and they increase, otherwise
+ * distance at a constant speed.
+ */
+export function trackTimeline(points: ReplayPoint[]) {
+  const timed = points.every(
+    (p, i) => p.time !== undefined && (i === 0 || p.time > points[i - 1].time!)
+  );
+  if (timed) return points.map((p) => p.time! - points[0].time!);
+
+  const offsets = [0];
+  for (let i = 1; i < points.length; i++) {
+    const meters = haversineMeters(points[i - 1], points[i]);
+    offsets.push(offsets[i - 1] + (meters / DEFAULT_SPEED_MS) * 1000);
+  }
+  return offsets;
+}
+
+/**
+ * Fix at `elapsedMs` of simulated time, interpolated between the two
+ * surrounding points, with heading and speed of that stretch. `null` once
+ * past the end. Pure.
+ */
+export function fixAt(
+  points: ReplayPoint[],
+  timeline: number[],
+  elapsedMs: number
+): Location.LocationObject | null {
+  if (elapsedMs > timeline[timeline.length - 1]) return null;
+  let i = 1;
+  while (i < timeline.length - 1 && timeline[i] < elapsedMs) i++;
+
+  const a = points[i - 1];
+  const b = points[i];
+  const span = timeline[i] - timeline[i - 1];
+  const f = span > 0 ? Math.min(1, Math.max(0, (elapsedMs - timeline[i - 1]) / span)) : 1;
+  const meters = haversineMeters(a, b);
+
+  return {
+    coords: {
+      latitude: a.latitude + (b.latitude - a.latitude) * f,
+      longitude: a.longitude + (b.longitude - a.longitude) * f,
+      altitude: null,
+      accuracy: 5,
+      altitudeAccuracy: null,
+      heading: meters > 0 ? bearingDegrees(a, b) : null,
+      speed: span > 0 ? meters / (span / 1000) : 0,
+    },
+    timestamp: Date.now(),
+    mocked: true,
+  };
+}
+
+export type TrackReplay = {
+  speedFactor: number;
+  /** position right now; stays on the last point once finished */
+  current: () => Location.LocationObject;
+  /** 0…1 */
+  progress: () => number;
+  stop: () => void;
+};
+
+/**
+ * Plays `track` back in real time × `speedFactor`, calling `onFix` every
+ * second like `watchPositionAsync` would, and `onEnd` after the last point.
+ */
+export function startReplay(
+  track: ReplayTrack,
+  speedFactor: number,
+  onFix: (fix: Location.LocationObject) => void,
+  onEnd: () => void
+): TrackReplay {
+  const { points } = track;
+  const timeline = trackTimeline(points);
+  const total = timeline[timeline.length - 1];
+  const startedAt = Date.now();
+  const elapsed = () => Math.min(total, (Date.now() - startedAt) * speedFactor);
+
+  const current = () => fixAt(points, timeline, elapsed())!;
+
+  const timer = setInterval(() => {
+    if ((Date.now() - startedAt) * speedFactor > total) {
+      clearInterval(timer);
+      onEnd();
+      return;
+    }
+    onFix(current());
+  }, FIX_INTERVAL_MS);
+
+  return {
+    speedFactor,
+    current,
+    progress: () => (total > 0 ? elapsed() / total : 1),
+    stop: () => clearInterval(timer),
+  };
+}
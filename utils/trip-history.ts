@@ -0,0 +1,166 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { AlertEvent, AlertHit, Coords } from "@/types/alerts";
+import { haversineMeters } from "@/utils/geo";
+
+/** One incident alerted during a driving session. */
+export type TripLogEntry = {
+  event: AlertEvent;
+  /** when it was first shown (ms since epoch) */
+  seenAt: number;
+  /** where the driver was when it was first shown */
+  position: Coords;
+  minDistanceMeters: number;
+  /** where the driver was when closest to it */
+  closestAt: Coords;
+};
+
+export type TrackPoint = Coords & { time: number };
+
+/** A driving session, from `startDriving` to `stopDriving`. */
+export type TripLog = {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  entries: TripLogEntry[];
+  track: TrackPoint[];
+};
+
+const STORAGE_KEY = "trafficalert.tripHistory";
+
+// Solo guardamos los últimos viajes y una traza acotada por viaje.
+const MAX_TRIPS = 50;
+const MAX_TRACK_POINTS = 2000;
+// El GPS da una posición por segundo: parado o despacio no añadimos puntos.
+const MIN_TRACK_STEP_METERS = 25;
+
+export function startTripLog(now = Date.now()): TripLog {
+  return { id: `${now}`, startedAt: now, entries: [], track: [] };
+}
+
+/**
+ * Records the hits shown at `position`: new incidents get an entry, known
+ * ones keep their minimum distance up to date. Pure.
+ */
+export function recordHits(log: TripLog, hits: AlertHit[], position: Coords, now = Date.now()) {
+  const byId = new Map(log.entries.map((e) => [e.event.id, e]));
+  for (const hit of hits) {
+    const known = byId.get(hit.event.id);
+    if (!known) {
+      byId.set(hit.event.id, {
+        event: hit.event,
+        seenAt: now,
+        position,
+        minDistanceMeters: hit.distanceMeters,
+        closestAt: position,
+      });
+    } else if (hit.distanceMeters < known.minDistanceMeters) {
+      byId.set(hit.event.id, {
+        ...known,
+        event: hit.event,
+        minDistanceMeters: hit.distanceMeters,
+        closestAt: position,
+      });
+    }
+  }
+  return { ...log, entries: [...byId.values()] };
+}
+
+/**
+ * Appends a position to the trip's track, unless it's within a few metres of
+ * the last one. A full track keeps every other point, so a long trip loses
+ * detail instead of its beginning. Pure.
+ */
+export function recordPosition(log: TripLog, position: Coords, now = Date.now()): TripLog {
+  const last = log.track[log.track.length - 1];
+  if (last && haversineMeters(last, position) < MIN_TRACK_STEP_METERS) return log;
+  const point = { latitude: position.latitude, longitude: position.longitude, time: now };
+  const track = [...log.track, point];
+  return {
+    ...log,
+    track: track.length > MAX_TRACK_POINTS ? track.filter((_, i) => i % 2 === 0) : track,
+  };
+}
+
+export async function loadTripHistory(): Promise<TripLog[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as TripLog[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveTripHistory(trips: TripLog[]) {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(trips));
+  } catch {
+    // el historial es best-effort
+  }
+}
+
+/** Stores a finished trip, newest first. */
+export async function archiveTrip(log: TripLog) {
+  const trips = await loadTripHistory();
+  await saveTripHistory([log, ...trips.filter((t) => t.id !== log.id)].slice(0, MAX_TRIPS));
+}
+
+export async function deleteTrip(id: string) {
+  const trips = await loadTripHistory();
+  await saveTripHistory(trips.filter((t) => t.id !== id));
+}
+
+export function tripToJson(log: TripLog) {
+  return JSON.stringify(log, null, 2);
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const isoTime = (ms: number) => new Date(ms).toISOString();
+
+/**
+ * GPX 1.1 with one waypoint per incident and the driven track, if any.
+ */
+export function tripToGpx(log: TripLog) {
+  const waypoints = log.entries.map(({ event, seenAt, minDistanceMeters }) => {
+    const name = [event.road, event.pkText && `PK ${event.pkText}`].filter(Boolean).join(" ");
+    const desc = [event.title ?? event.type, `mín. ${Math.round(minDistanceMeters)} m`]
+      .filter(Boolean)
+      .join(" • ");
+    return [
+      `  <wpt lat="${event.lat}" lon="${event.lon}">`,
+      `    <time>${isoTime(seenAt)}</time>`,
+      `    <name>${escapeXml(name || event.id)}</name>`,
+      `    <desc>${escapeXml(desc)}</desc>`,
+      `    <type>${escapeXml(event.type)}</type>`,
+      `  </wpt>`,
+    ].join("\n");
+  });
+
+  const track = log.track.length
+    ? [
+        "  <trk>",
+        "    <trkseg>",
+        ...log.track.map(
+          (p) =>
+            `      <trkpt lat="${p.latitude}" lon="${p.longitude}"><time>${isoTime(p.time)}</time></trkpt>`
+        ),
+        "    </trkseg>",
+        "  </trk>",
+      ]
+    : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="TrafficAlert" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><time>${isoTime(log.startedAt)}</time></metadata>`,
+    ...waypoints,
+    ...track,
+    "</gpx>",
+  ].join("\n");
+}
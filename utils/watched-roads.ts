@@ -0,0 +1,69 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type { AlertEvent, RoadSegment } from "@/types/alerts";
+import { pkKilometres } from "@/utils/format";
+import { normalizeRoad, sameDirection } from "@/utils/route-filter";
+
+/** A stretch of road the user wants to keep an eye on ("Mis carreteras"). */
+export type WatchedRoad = RoadSegment & { id: string };
+
+export type WatchMatch = { watchId: string; event: AlertEvent };
+
+export type WatchCheck = {
+  checkedAt: number;
+  matches: WatchMatch[];
+};
+
+const ROADS_KEY = "trafficalert.watchedRoads";
+const LAST_CHECK_KEY = "trafficalert.watchedRoads.lastCheck";
+const SEEN_KEY = "trafficalert.watchedRoads.seen";
+
+async function read<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function write(key: string, value: unknown) {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // best-effort, como el resto del almacenamiento local
+  }
+}
+
+export const loadWatchedRoads = () => read<WatchedRoad[]>(ROADS_KEY, []);
+export const saveWatchedRoads = (roads: WatchedRoad[]) => write(ROADS_KEY, roads);
+
+export const loadLastWatchCheck = () => read<WatchCheck | null>(LAST_CHECK_KEY, null);
+export const saveLastWatchCheck = (check: WatchCheck) => write(LAST_CHECK_KEY, check);
+
+/** Event ids already notified, so each incident is notified once. */
+export const loadSeenWatchIds = () => read<string[]>(SEEN_KEY, []);
+export const saveSeenWatchIds = (ids: string[]) => write(SEEN_KEY, ids);
+
+export function matchesWatch(event: AlertEvent, watch: WatchedRoad) {
+  if (normalizeRoad(event.road) !== normalizeRoad(watch.road)) return false;
+  const pk = pkKilometres(event);
+  if (pk === null) return false;
+  const lo = Math.min(watch.fromPk, watch.toPk);
+  const hi = Math.max(watch.fromPk, watch.toPk);
+  if (pk < lo || pk > hi) return false;
+  return sameDirection(watch.direction, event.direction ?? event.orientation);
+}
+
+/**
+ * Pairs each event with the first watched road it falls in; events outside
+ * every watched road are dropped.
+ */
+export function matchWatchedRoads(events: AlertEvent[], roads: WatchedRoad[]): WatchMatch[] {
+  const matches: WatchMatch[] = [];
+  for (const event of events) {
+    const watch = roads.find((r) => matchesWatch(event, r));
+    if (watch) matches.push({ watchId: watch.id, event });
+  }
+  return matches;
+}